@@ -8,9 +8,64 @@ interface Suggestion {
 interface ATSProps {
     score: number;
     suggestions: Suggestion[];
+    analysis?: ATSAnalysis | null;
 }
 
-const ATS: React.FC<ATSProps> = ({ score, suggestions }) => {
+const KeywordMatch = ({ analysis }: { analysis: ATSAnalysis }) => {
+    return (
+        <div className="mb-6 flex flex-col gap-4">
+            <h3 className="text-xl font-semibold">Keyword Match</h3>
+            {analysis.hasJobDescription ? (
+                <>
+                    <p className="text-gray-600">
+                        Your resume covers {Math.round(analysis.keywordCoverage * 100)}% of the top keywords in the job description.
+                    </p>
+                    {analysis.matchedKeywords.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {analysis.matchedKeywords.map((keyword) => (
+                                <span key={keyword} className="px-3 py-1 rounded-full bg-badge-green text-badge-green-text text-sm">
+                                    {keyword}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    {analysis.missingKeywords.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {analysis.missingKeywords.map((keyword) => {
+                                const isMustHave = analysis.missingMustHaves.includes(keyword);
+                                return (
+                                    <span
+                                        key={keyword}
+                                        className={`px-3 py-1 rounded-full text-sm ${isMustHave ? 'bg-badge-red text-badge-red-text font-semibold' : 'bg-badge-yellow text-badge-yellow-text'}`}
+                                        title={isMustHave ? 'Required by the job description' : 'Missing from your resume'}
+                                    >
+                                        {keyword}
+                                    </span>
+                                );
+                            })}
+                        </div>
+                    )}
+                </>
+            ) : (
+                <p className="text-gray-600">Add a job description to check how well your resume matches its keywords.</p>
+            )}
+            <div className="flex flex-wrap gap-4">
+                {analysis.sections.map((section) => (
+                    <div key={section.name} className="flex items-center gap-2">
+                        <img
+                            src={section.found ? "/icons/check.svg" : "/icons/warning.svg"}
+                            alt={section.found ? "Found" : "Missing"}
+                            className="w-5 h-5"
+                        />
+                        <p className="capitalize">{section.name}</p>
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
+
+const ATS: React.FC<ATSProps> = ({ score, suggestions, analysis }) => {
     // Determine background gradient based on score
     const gradientClass = score > 69
         ? 'from-green-100'
@@ -39,6 +94,11 @@ const ATS: React.FC<ATSProps> = ({ score, suggestions }) => {
                 <img src={iconSrc} alt="ATS Score Icon" className="w-12 h-12" />
                 <div>
                     <h2 className="text-2xl font-bold">ATS Score - {score}/100</h2>
+                    {analysis && (
+                        <p className="text-gray-600" title="Computed locally from keyword coverage and section detection">
+                            Keyword Match Score - {analysis.score}/100
+                        </p>
+                    )}
                 </div>
             </div>
 
@@ -66,6 +126,9 @@ const ATS: React.FC<ATSProps> = ({ score, suggestions }) => {
                 </div>
             </div>
 
+            {/* Deterministic keyword match */}
+            {analysis && <KeywordMatch analysis={analysis} />}
+
             {/* Closing encouragement */}
             <p className="text-gray-700 italic">
                 Keep refining your resume to improve your chances of getting past ATS filters and into the hands of recruiters.
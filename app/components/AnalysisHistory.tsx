@@ -0,0 +1,88 @@
+import {cn} from "~/lib/utils";
+import {FEEDBACK_CATEGORIES, FEEDBACK_CATEGORY_LABELS} from "~/lib/feedback";
+import {getRubric} from "~/lib/rubrics";
+import {getOverallScore} from "~/lib/scoring";
+import {ANALYSIS_PRESETS} from "../../constants";
+
+const ScoreDelta = ({ current, previous }: { current: number, previous?: number }) => {
+    if (previous === undefined) return null;
+
+    const delta = current - previous;
+    if (delta === 0) return <span className="text-xs text-gray-400">±0</span>;
+
+    return (
+        <span className={cn("text-xs font-semibold", delta > 0 ? "text-green-600" : "text-red-600")}>
+            {delta > 0 ? `+${delta}` : delta}
+        </span>
+    );
+};
+
+interface AnalysisHistoryProps {
+    versions: AnalysisVersion[];
+    selectedId: string;
+    onSelect: (id: string) => void;
+}
+
+const AnalysisHistory = ({ versions, selectedId, onSelect }: AnalysisHistoryProps) => {
+    return (
+        <div className="bg-white rounded-2xl shadow-md w-full p-4 flex flex-col gap-4">
+            <div className="flex flex-col gap-1">
+                <h3 className="text-2xl font-bold">Analysis History</h3>
+                <p className="text-sm text-gray-500">
+                    {versions.length} {versions.length === 1 ? 'run' : 'runs'}. Select one to view its feedback.
+                </p>
+            </div>
+            <ol className="flex flex-col gap-3 border-l-2 border-gray-200 ml-2">
+                {[...versions].reverse().map((version) => {
+                    const index = versions.indexOf(version);
+                    const previous = index > 0 ? versions[index - 1] : undefined;
+                    const isSelected = version.id === selectedId;
+
+                    return (
+                        <li key={version.id} className="relative pl-6">
+                            <span
+                                className={cn(
+                                    "absolute -left-[7px] top-4 size-3 rounded-full",
+                                    isSelected ? "bg-[#606beb]" : "bg-gray-300"
+                                )}
+                            />
+                            <button
+                                onClick={() => onSelect(version.id)}
+                                className={cn(
+                                    "w-full text-left rounded-2xl p-3 flex flex-col gap-2 cursor-pointer",
+                                    isSelected ? "bg-gray-100" : "bg-gray-50 hover:bg-gray-100"
+                                )}
+                            >
+                                <div className="flex flex-row justify-between items-center gap-2">
+                                    <p className="text-sm text-gray-500">
+                                        Run {index + 1}
+                                        {version.createdAt ? ` · ${new Date(version.createdAt).toLocaleString()}` : ''}
+                                        {version.model ? ` · ${version.model}` : ''}
+                                        {version.preset ? ` · ${ANALYSIS_PRESETS[version.preset].label}` : ''}
+                                        {version.rubricId ? ` · ${getRubric(version.rubricId).label} rubric` : ''}
+                                    </p>
+                                    <p className="text-lg font-semibold">
+                                        {getOverallScore(version)}/100{' '}
+                                        <ScoreDelta current={getOverallScore(version)} previous={previous && getOverallScore(previous)} />
+                                    </p>
+                                </div>
+                                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                                    {FEEDBACK_CATEGORIES.map((category) => (
+                                        <p key={category} className="text-sm text-gray-600">
+                                            {FEEDBACK_CATEGORY_LABELS[category]}: {version.feedback[category].score}{' '}
+                                            <ScoreDelta
+                                                current={version.feedback[category].score}
+                                                previous={previous?.feedback[category].score}
+                                            />
+                                        </p>
+                                    ))}
+                                </div>
+                            </button>
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    )
+}
+export default AnalysisHistory
@@ -0,0 +1,103 @@
+import {type FormEvent, useEffect, useState} from "react";
+import {APPLICATION_STATUSES, APPLICATION_STATUS_LABELS, getApplication} from "~/lib/applications";
+
+interface ApplicationDetailsProps {
+    resume: Resume;
+    onSave: (changes: Partial<ApplicationInfo>) => Promise<string | undefined>;
+}
+
+const ApplicationDetails = ({ resume, onSave }: ApplicationDetailsProps) => {
+    const [application, setApplication] = useState<ApplicationInfo>(getApplication(resume));
+    const [isSaving, setIsSaving] = useState(false);
+    const [statusText, setStatusText] = useState('');
+    const [isDirty, setIsDirty] = useState(false);
+
+    // Edits are only dropped for a different record. Reloads of this one, such as a board move or a
+    // finished re-analysis, show the stored details only when there is nothing unsaved.
+    useEffect(() => {
+        setIsDirty(false);
+    }, [resume.id]);
+
+    useEffect(() => {
+        if (!isDirty) setApplication(getApplication(resume));
+    }, [resume, isDirty]);
+
+    const update = (changes: Partial<ApplicationInfo>) => {
+        setApplication((current) => ({ ...current, ...changes }));
+        setIsDirty(true);
+    }
+
+    const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setIsSaving(true);
+        const error = await onSave(application);
+        setIsSaving(false);
+        if (!error) setIsDirty(false);
+        setStatusText(error ? `Error: ${error}` : 'Saved');
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4 bg-white rounded-2xl shadow-md w-full p-4">
+            <h3 className="text-2xl font-bold">Application</h3>
+            <div className="grid grid-cols-2 max-sm:grid-cols-1 gap-4 w-full">
+                <div className="form-div">
+                    <label htmlFor="application-status">Status</label>
+                    <select
+                        id="application-status"
+                        value={application.status}
+                        onChange={(e) => update({ status: e.target.value as ApplicationStatus })}
+                        className="w-full p-4 inset-shadow rounded-2xl focus:outline-none bg-white"
+                    >
+                        {APPLICATION_STATUSES.map((status) => (
+                            <option key={status} value={status}>{APPLICATION_STATUS_LABELS[status]}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="form-div">
+                    <label htmlFor="application-date">Applied Date</label>
+                    <input
+                        type="date"
+                        id="application-date"
+                        value={application.appliedDate || ''}
+                        onChange={(e) => update({ appliedDate: e.target.value || undefined })}
+                    />
+                </div>
+                <div className="form-div">
+                    <label htmlFor="application-url">Job Posting URL</label>
+                    <input
+                        type="url"
+                        id="application-url"
+                        value={application.jobUrl || ''}
+                        onChange={(e) => update({ jobUrl: e.target.value })}
+                        placeholder="https://"
+                    />
+                </div>
+                <div className="form-div">
+                    <label htmlFor="application-contact">Contact</label>
+                    <input
+                        type="text"
+                        id="application-contact"
+                        value={application.contact || ''}
+                        onChange={(e) => update({ contact: e.target.value })}
+                        placeholder="Recruiter or hiring manager"
+                    />
+                </div>
+            </div>
+            <div className="form-div">
+                <label htmlFor="application-notes">Notes</label>
+                <textarea
+                    rows={3}
+                    id="application-notes"
+                    value={application.notes || ''}
+                    onChange={(e) => update({ notes: e.target.value })}
+                    placeholder="Notes"
+                />
+            </div>
+            <button className="primary-button" type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Application'}
+            </button>
+            {statusText && <p className="text-sm text-gray-600">{statusText}</p>}
+        </form>
+    )
+}
+export default ApplicationDetails
@@ -0,0 +1,113 @@
+import {useState} from "react";
+import type {ServiceResult} from "~/lib/services";
+import {type BulletRewrite, diffWords, type RewriteStatus, rewritesToMarkdown, rewritesToText} from "~/lib/rewrites";
+import {cn, downloadBlob} from "~/lib/utils";
+
+const InlineDiff = ({ before, after }: { before: string, after: string }) => (
+    <p className="text-base leading-relaxed">
+        {diffWords(before, after).map((part, index) => (
+            <span
+                key={index}
+                className={cn(
+                    part.type === 'added' && "bg-green-100 text-green-800",
+                    part.type === 'removed' && "bg-red-100 text-red-700 line-through"
+                )}
+            >
+                {part.text}
+            </span>
+        ))}
+    </p>
+);
+
+interface BulletRewritesProps {
+    onGenerate: () => Promise<ServiceResult<BulletRewrite[]>>;
+    // Base name for the exported files
+    fileName: string;
+}
+
+const BulletRewrites = ({ onGenerate, fileName }: BulletRewritesProps) => {
+    const [rewrites, setRewrites] = useState<BulletRewrite[]>([]);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [statusText, setStatusText] = useState('');
+
+    const accepted = rewrites.filter((rewrite) => rewrite.status === 'accepted');
+
+    const handleGenerate = async () => {
+        setIsGenerating(true);
+        setStatusText('Finding bullets to improve...');
+
+        const { data, error } = await onGenerate();
+        setIsGenerating(false);
+        if (!data) return setStatusText(`Error: ${error}`);
+
+        setRewrites(data);
+        setStatusText(data.length ? '' : 'Your bullet points already look strong. No rewrites suggested.');
+    }
+
+    const setStatus = (id: string, status: RewriteStatus) =>
+        setRewrites((current) => current.map((rewrite) => rewrite.id === id ? { ...rewrite, status } : rewrite));
+
+    const handleExport = (format: 'txt' | 'md') => {
+        const content = format === 'txt' ? rewritesToText(accepted) : rewritesToMarkdown(accepted);
+        downloadBlob(new Blob([content], { type: format === 'txt' ? 'text/plain' : 'text/markdown' }), `${fileName}-rewrites.${format}`);
+    }
+
+    return (
+        <div className="flex flex-col gap-4 bg-white rounded-2xl shadow-md w-full p-4">
+            <h3 className="text-2xl font-bold">Rewrite Assistant</h3>
+            <p className="text-sm text-gray-500">
+                Get stronger versions of your experience bullets based on the tips above. Accept the ones you like and export them.
+            </p>
+
+            {rewrites.map((rewrite) => (
+                <div
+                    key={rewrite.id}
+                    className={cn(
+                        "flex flex-col gap-2 rounded-2xl p-4 border",
+                        rewrite.status === 'accepted' ? "border-green-200 bg-green-50"
+                            : rewrite.status === 'rejected' ? "border-gray-200 bg-gray-50 opacity-60"
+                                : "border-gray-200"
+                    )}
+                >
+                    <InlineDiff before={rewrite.original} after={rewrite.proposed} />
+                    {rewrite.tip && <p className="text-sm text-gray-500">Addresses: {rewrite.tip}</p>}
+                    <div className="flex flex-row gap-2">
+                        <button
+                            onClick={() => setStatus(rewrite.id, rewrite.status === 'accepted' ? 'pending' : 'accepted')}
+                            className={cn(
+                                "px-3 py-1 rounded-full text-sm font-semibold cursor-pointer",
+                                rewrite.status === 'accepted' ? "bg-green-600 text-white" : "bg-badge-green text-badge-green-text"
+                            )}
+                        >
+                            {rewrite.status === 'accepted' ? 'Accepted' : 'Accept'}
+                        </button>
+                        <button
+                            onClick={() => setStatus(rewrite.id, rewrite.status === 'rejected' ? 'pending' : 'rejected')}
+                            className="px-3 py-1 rounded-full text-sm font-semibold cursor-pointer bg-gray-100 text-gray-700"
+                        >
+                            {rewrite.status === 'rejected' ? 'Rejected' : 'Reject'}
+                        </button>
+                    </div>
+                </div>
+            ))}
+
+            {accepted.length > 0 && (
+                <div className="flex flex-row items-center gap-4 max-sm:flex-col">
+                    <p className="text-sm text-gray-600">{accepted.length} accepted</p>
+                    <button className="back-button text-sm font-semibold cursor-pointer" onClick={() => handleExport('txt')}>
+                        Export as text
+                    </button>
+                    <button className="back-button text-sm font-semibold cursor-pointer" onClick={() => handleExport('md')}>
+                        Export as Markdown
+                    </button>
+                </div>
+            )}
+
+            <button className="primary-button" onClick={handleGenerate} disabled={isGenerating}>
+                {isGenerating ? 'Generating...' : rewrites.length ? 'Suggest new rewrites' : 'Suggest rewrites'}
+            </button>
+            {statusText && <p className="text-sm text-gray-600">{statusText}</p>}
+        </div>
+    )
+}
+export default BulletRewrites
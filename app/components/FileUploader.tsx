@@ -1,6 +1,7 @@
 import {useState, useCallback} from 'react'
 import {useDropzone} from 'react-dropzone'
 import { formatSize } from '../lib/utils'
+import { ACCEPTED_DOCUMENT_TYPES } from '../lib/ingest'
 
 interface FileUploaderProps {
     onFileSelect?: (file: File | null) => void;
@@ -18,7 +19,7 @@ const FileUploader = ({ onFileSelect }: FileUploaderProps) => {
     const {getRootProps, getInputProps, isDragActive, acceptedFiles} = useDropzone({
         onDrop,
         multiple: false,
-        accept: { 'application/pdf': ['.pdf']},
+        accept: ACCEPTED_DOCUMENT_TYPES,
         maxSize: maxFileSize,
     })
 
@@ -34,7 +35,7 @@ const FileUploader = ({ onFileSelect }: FileUploaderProps) => {
                 <div className="space-y-4 cursor-pointer">
                     {file ? (
                         <div className="uploader-selected-file" onClick={(e) => e.stopPropagation()}>
-                            <img src="/images/pdf.png" alt="pdf" className="size-10" />
+                            <img src="/images/pdf.png" alt="document" className="size-10" />
                             <div className="flex items-center space-x-3">
                                 <div>
                                     <p className="text-sm font-medium text-gray-700 truncate max-w-xs">
@@ -61,7 +62,7 @@ const FileUploader = ({ onFileSelect }: FileUploaderProps) => {
                                     Click to upload
                                 </span> or drag and drop
                             </p>
-                            <p className="text-lg text-gray-500">PDF (max {formatSize(maxFileSize)})</p>
+                            <p className="text-lg text-gray-500">PDF, DOCX, TXT or MD (max {formatSize(maxFileSize)})</p>
                         </div>
                     )}
                 </div>
@@ -0,0 +1,108 @@
+import {type FormEvent, useEffect, useRef, useState} from "react";
+import {CHAT_SUGGESTIONS} from "~/lib/chat";
+import {cn} from "~/lib/utils";
+
+interface FollowUpChatProps {
+    messages: ChatMessage[];
+    // Resolves with an error message when the question could not be answered
+    onSend: (message: string) => Promise<string | undefined>;
+    onClear: () => void;
+}
+
+const messageText = (message: ChatMessage) =>
+    typeof message.content === 'string' ? message.content : message.content.map((part) => part.text || '').join('');
+
+const Bubble = ({ role, text }: { role: ChatMessage['role'], text: string }) => (
+    <div
+        className={cn(
+            "max-w-[85%] rounded-2xl px-4 py-2 whitespace-pre-wrap",
+            role === 'user' ? "self-end bg-[#606beb] text-white" : "self-start bg-gray-100 text-gray-800"
+        )}
+    >
+        {text}
+    </div>
+);
+
+const FollowUpChat = ({ messages, onSend, onClear }: FollowUpChatProps) => {
+    const [draft, setDraft] = useState('');
+    const [pending, setPending] = useState('');
+    const [statusText, setStatusText] = useState('');
+    const listRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+    }, [messages, pending]);
+
+    const send = async (message: string) => {
+        if (!message.trim() || pending) return;
+
+        setPending(message.trim());
+        setDraft('');
+        setStatusText('');
+        const error = await onSend(message.trim());
+        setPending('');
+        if (error) {
+            setStatusText(`Error: ${error}`);
+            setDraft(message);
+        }
+    }
+
+    const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        send(draft);
+    }
+
+    return (
+        <div className="flex flex-col gap-4 bg-white rounded-2xl shadow-md w-full p-4">
+            <div className="flex flex-row justify-between items-center">
+                <h3 className="text-2xl font-bold">Ask About Your Review</h3>
+                {messages.length > 0 && !pending && (
+                    <button onClick={onClear} className="text-sm text-gray-500 underline cursor-pointer">
+                        Clear conversation
+                    </button>
+                )}
+            </div>
+
+            {messages.length > 0 || pending ? (
+                <div ref={listRef} className="flex flex-col gap-3 max-h-[480px] overflow-y-auto">
+                    {messages
+                        .filter((message) => message.role !== 'system')
+                        .map((message, index) => <Bubble key={index} role={message.role} text={messageText(message)} />)}
+                    {pending && (
+                        <>
+                            <Bubble role="user" text={pending} />
+                            <p className="self-start text-sm text-gray-500">Thinking...</p>
+                        </>
+                    )}
+                </div>
+            ) : (
+                <div className="flex flex-wrap gap-2">
+                    {CHAT_SUGGESTIONS.map((suggestion) => (
+                        <button
+                            key={suggestion}
+                            onClick={() => send(suggestion)}
+                            className="px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-700 cursor-pointer"
+                        >
+                            {suggestion}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="flex flex-row gap-2 items-center">
+                <input
+                    type="text"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    placeholder="Ask a follow-up question"
+                    aria-label="Follow-up question"
+                />
+                <button className="primary-button !w-fit" type="submit" disabled={!!pending || !draft.trim()}>
+                    Send
+                </button>
+            </form>
+            {statusText && <p className="text-sm text-gray-600">{statusText}</p>}
+        </div>
+    )
+}
+export default FollowUpChat
@@ -0,0 +1,110 @@
+import {useEffect, useRef, useState} from "react";
+import {type ImportedJob, importJobPosting, type JobPostingFetcher, parseJobPosting} from "~/lib/jobImport";
+
+interface JobImportProps {
+    onImport: (job: ImportedJob) => void;
+    fetcher?: JobPostingFetcher;
+}
+
+const JobImport = ({ onImport, fetcher }: JobImportProps) => {
+    const [url, setUrl] = useState('');
+    const [html, setHtml] = useState('');
+    const [isImporting, setIsImporting] = useState(false);
+    const [statusText, setStatusText] = useState('');
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    const finish = (job: ImportedJob) => {
+        onImport(job);
+        setStatusText(`Imported ${[job.title, job.company].filter(Boolean).join(' at ') || 'the job description'}. Check the fields below.`);
+    }
+
+    const handleImportUrl = async () => {
+        if (isImporting || !url.trim()) return;
+
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setIsImporting(true);
+        setStatusText('Loading the job posting...');
+        const { data, error, errorKind } = await importJobPosting(url, { fetcher, signal: controller.signal });
+        // A cancelled import has already reset the state
+        if (abortControllerRef.current !== controller) return;
+        abortControllerRef.current = null;
+        setIsImporting(false);
+
+        if (!data) return setStatusText(errorKind === 'cancelled' ? 'Import cancelled' : `Error: ${error}`);
+        finish(data);
+    }
+
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        setIsImporting(false);
+        setStatusText('Import cancelled');
+    }
+
+    const handleImportHtml = () => {
+        const job = parseJobPosting(html);
+        if (!job.description) return setStatusText('Error: No job description was found in the pasted content');
+        finish(job);
+        setHtml('');
+    }
+
+    return (
+        <div className="form-div">
+            <label htmlFor="job-url">Import from a Job Posting</label>
+            <div className="flex flex-row gap-2 w-full">
+                <input
+                    type="url"
+                    id="job-url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    // The import sits inside the upload form, where Enter would otherwise submit it
+                    onKeyDown={(e) => {
+                        if (e.key !== 'Enter') return;
+                        e.preventDefault();
+                        handleImportUrl();
+                    }}
+                    placeholder="https://..."
+                />
+                {isImporting ? (
+                    <button type="button" className="primary-button !w-fit" onClick={handleCancel}>
+                        Cancel
+                    </button>
+                ) : (
+                    <button
+                        type="button"
+                        className="primary-button !w-fit"
+                        onClick={handleImportUrl}
+                        disabled={!url.trim()}
+                    >
+                        Import
+                    </button>
+                )}
+            </div>
+            <details className="w-full">
+                <summary className="text-sm text-gray-500 cursor-pointer">Or paste the page HTML</summary>
+                <div className="flex flex-col gap-2 mt-2">
+                    <textarea
+                        rows={4}
+                        aria-label="Job posting HTML"
+                        value={html}
+                        onChange={(e) => setHtml(e.target.value)}
+                        placeholder="Open the posting, view the page source, and paste it here"
+                    />
+                    <button
+                        type="button"
+                        className="primary-button !w-fit"
+                        onClick={handleImportHtml}
+                        disabled={!html.trim()}
+                    >
+                        Import HTML
+                    </button>
+                </div>
+            </details>
+            {statusText && <p className="text-sm text-gray-600">{statusText}</p>}
+        </div>
+    )
+}
+export default JobImport
@@ -0,0 +1,45 @@
+import {cn} from "~/lib/utils";
+import {JOB_STEP_LABELS} from "~/lib/pipeline";
+
+interface JobStatusProps {
+    job: AnalysisJob;
+    onRetry: () => void;
+    className?: string;
+}
+
+// Shows where an unfinished upload stopped, with a Retry button once it has failed
+const JobStatus = ({ job, onRetry, className }: JobStatusProps) => {
+    const failed = job.status === 'failed';
+
+    return (
+        <div className={cn(
+            "flex flex-col gap-3 rounded-2xl p-4",
+            failed ? "bg-badge-red" : "bg-badge-yellow",
+            className
+        )}>
+            <div className="flex flex-row items-center gap-2">
+                <img src={failed ? "/icons/warning.svg" : "/icons/info.svg"} alt="status" className="size-5" />
+                <p className={cn("font-semibold", failed ? "text-red-600" : "text-yellow-600")}>
+                    {failed ? 'Analysis failed' : 'Analysis in progress'}
+                </p>
+            </div>
+            <p className="text-sm text-gray-600">
+                {failed ? `Stopped at: ${JOB_STEP_LABELS[job.step]}. ${job.error || ''}` : `${JOB_STEP_LABELS[job.step]}...`}
+            </p>
+            {failed && (
+                <button
+                    className="primary-button w-fit"
+                    onClick={(e) => {
+                        // Cards are links, so keep the click from navigating
+                        e.preventDefault();
+                        e.stopPropagation();
+                        onRetry();
+                    }}
+                >
+                    Retry
+                </button>
+            )}
+        </div>
+    )
+}
+export default JobStatus
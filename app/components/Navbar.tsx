@@ -6,9 +6,17 @@ const Navbar = () => {
             <Link to="/">
                 <p className="text-2xl font-bold text-gradient">RESUMIND</p>
             </Link>
-            <Link to="/upload" className="primary-button w-fit">
-                Upload Resume
-            </Link>
+            <div className="flex flex-row items-center gap-6">
+                <Link to="/board" className="text-lg font-semibold text-gray-700">
+                    Board
+                </Link>
+                <Link to="/settings" className="text-lg font-semibold text-gray-700">
+                    Settings
+                </Link>
+                <Link to="/upload" className="primary-button w-fit">
+                    Upload Resume
+                </Link>
+            </div>
         </nav>
     )
 }
@@ -0,0 +1,63 @@
+import {useEffect, useState} from "react";
+import {cn} from "~/lib/utils";
+
+interface PageViewerProps {
+    pageUrls: string[];
+    resumeUrl: string;
+}
+
+const PageViewer = ({ pageUrls, resumeUrl }: PageViewerProps) => {
+    const [currentPage, setCurrentPage] = useState(0);
+    const pageCount = pageUrls.length;
+
+    useEffect(() => {
+        setCurrentPage(0);
+    }, [pageUrls]);
+
+    return (
+        <div className="flex flex-col items-center gap-4 h-[90%] max-wxl:h-fit w-fit">
+            <div className="animate-in fade-in duration-1000 gradient-border max-sm:m-0 h-full w-fit">
+                <a href={resumeUrl} target="_blank" rel="noopener noreferrer">
+                    <img
+                        src={pageUrls[currentPage]}
+                        className="w-full h-full object-contain rounded-2xl"
+                        title={`resume page ${currentPage + 1}`}
+                    />
+                </a>
+            </div>
+            {pageCount > 1 && (
+                <div className="flex flex-row items-center gap-4">
+                    <button
+                        className="back-button cursor-pointer disabled:opacity-40 disabled:cursor-default"
+                        onClick={() => setCurrentPage((page) => page - 1)}
+                        disabled={currentPage === 0}
+                    >
+                        <img src="/icons/back.svg" alt="previous page" className="w-2.5 h-2.5" />
+                    </button>
+                    <div className="flex flex-row gap-2">
+                        {pageUrls.map((url, index) => (
+                            <button
+                                key={url}
+                                className={cn(
+                                    "size-2.5 rounded-full cursor-pointer",
+                                    index === currentPage ? "bg-gray-800" : "bg-gray-300"
+                                )}
+                                onClick={() => setCurrentPage(index)}
+                                aria-label={`Go to page ${index + 1}`}
+                            />
+                        ))}
+                    </div>
+                    <button
+                        className="back-button cursor-pointer disabled:opacity-40 disabled:cursor-default"
+                        onClick={() => setCurrentPage((page) => page + 1)}
+                        disabled={currentPage === pageCount - 1}
+                    >
+                        <img src="/icons/back.svg" alt="next page" className="w-2.5 h-2.5 rotate-180" />
+                    </button>
+                    <p className="text-sm text-gray-500">Page {currentPage + 1} of {pageCount}</p>
+                </div>
+            )}
+        </div>
+    )
+}
+export default PageViewer
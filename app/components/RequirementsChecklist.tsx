@@ -0,0 +1,52 @@
+import {REQUIREMENT_GROUP_LABELS, type RequirementCheck, type RequirementGroup} from "~/lib/requirements";
+import {cn} from "~/lib/utils";
+
+interface RequirementsChecklistProps {
+    checks: RequirementCheck[];
+    jobDescription: string;
+}
+
+const RequirementsChecklist = ({ checks, jobDescription }: RequirementsChecklistProps) => {
+    const groups = (Object.keys(REQUIREMENT_GROUP_LABELS) as RequirementGroup[])
+        .map((group) => ({ group, items: checks.filter((check) => check.group === group) }))
+        .filter(({ items }) => items.length > 0);
+    const metCount = checks.filter((check) => check.met).length;
+
+    return (
+        <div className="flex flex-col gap-4 bg-white rounded-2xl shadow-md w-full p-4">
+            <div className="flex flex-col gap-1">
+                <h3 className="text-2xl font-bold">Job Requirements</h3>
+                <p className="text-sm text-gray-500">
+                    {checks.length
+                        ? `Your resume meets ${metCount} of ${checks.length} requirements found in the job description.`
+                        : 'No specific requirements were found in the job description.'}
+                </p>
+            </div>
+
+            {groups.map(({ group, items }) => (
+                <div key={group} className="flex flex-col gap-2">
+                    <p className="font-semibold">{REQUIREMENT_GROUP_LABELS[group]}</p>
+                    <ul className="flex flex-col gap-1">
+                        {items.map((check) => (
+                            <li key={check.label} className="flex flex-row gap-2 items-center">
+                                <img
+                                    src={check.met ? "/icons/check.svg" : "/icons/warning.svg"}
+                                    alt={check.met ? "Met" : "Not met"}
+                                    className="size-5"
+                                />
+                                <span className={cn(!check.met && "text-gray-600")}>{check.label}</span>
+                                {check.detail && <span className="text-sm text-gray-400">({check.detail})</span>}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            ))}
+
+            <details>
+                <summary className="text-sm text-gray-500 cursor-pointer">Show job description</summary>
+                <p className="mt-2 text-sm text-gray-600 whitespace-pre-wrap">{jobDescription}</p>
+            </details>
+        </div>
+    )
+}
+export default RequirementsChecklist
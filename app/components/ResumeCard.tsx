@@ -1,22 +1,40 @@
 import {Link} from "react-router";
 import ScoreCircle from "~/components/ScoreCircle";
+import JobStatus from "~/components/JobStatus";
 import {useEffect, useState} from "react";
-import {usePuterStore} from "~/lib/puter";
+import {useServices} from "~/lib/services/context";
+import {runPipeline, usePipelineStore} from "~/lib/pipeline";
+import {getOverallScore} from "~/lib/scoring";
 
-const ResumeCard = ({ resume: { id, companyName, jobTitle, feedback, imagePath } }: { resume: Resume }) => {
-    const { fs } = usePuterStore();
+const ResumeCard = ({ resume: stored }: { resume: Resume }) => {
+    const { fs, kv, ai } = useServices();
+    // Prefer the pipeline's copy so running jobs update in place
+    const resume = usePipelineStore((state) => state.resumes[stored.id]) || stored;
+    const { id, companyName, jobTitle, feedback, imagePath, pageCount, job } = resume;
     const [resumeUrl, setResumeUrl] = useState('');
 
     useEffect(() => {
+        if(!imagePath) return;
+
         const loadResume = async () => {
-            const blob = await fs.read(imagePath);
+            const { data: blob } = await fs.read(imagePath);
             if(!blob) return;
             let url = URL.createObjectURL(blob);
             setResumeUrl(url);
         }
 
         loadResume();
-    }, [imagePath]);
+    }, [fs, imagePath]);
+
+    // Release the thumbnail's object URL when it is replaced or the card unmounts
+    useEffect(() => () => {
+        if (resumeUrl) URL.revokeObjectURL(resumeUrl);
+    }, [resumeUrl]);
+
+    const handleRetry = () => {
+        runPipeline({ fs, kv, ai }, resume)
+            .then(({ error }) => error && console.error('Retry failed:', error));
+    }
 
     return (
         <Link to={`/resume/${id}`} className="resume-card animate-in fade-in duration-1000">
@@ -26,12 +44,22 @@ const ResumeCard = ({ resume: { id, companyName, jobTitle, feedback, imagePath }
                     {jobTitle && <h3 className="text-lg break-words text-gray-500">{jobTitle}</h3>}
                     {!companyName && !jobTitle && <h2 className="!text-black font-bold">Resume</h2>}
                 </div>
-                <div className="flex-shrink-0">
-                    <ScoreCircle score={feedback.overallScore} />
-                </div>
+                {feedback && (
+                    <div className="flex-shrink-0">
+                        <ScoreCircle score={getOverallScore(resume)} />
+                    </div>
+                )}
             </div>
+            {!feedback && job && job.status !== 'done' && (
+                <JobStatus job={job} onRetry={handleRetry} />
+            )}
             {resumeUrl && (
-                <div className="gradient-border animate-in fade-in duration-1000">
+                <div className="gradient-border animate-in fade-in duration-1000 relative">
+                    {(pageCount ?? 1) > 1 && (
+                        <div className="absolute top-6 right-6 px-3 py-1 rounded-full bg-white/90 shadow-sm">
+                            <p className="text-sm font-medium text-gray-700">{pageCount} pages</p>
+                        </div>
+                    )}
                     <div className="w-full h-full">
                         <img
                             src={resumeUrl}
@@ -44,4 +72,4 @@ const ResumeCard = ({ resume: { id, companyName, jobTitle, feedback, imagePath }
         </Link>
     )
 }
-export default ResumeCard
\ No newline at end of file
+export default ResumeCard
@@ -0,0 +1,59 @@
+import {RESUME_SORTS, type ResumeFilters as Filters, type ResumeSort, SCORE_BAND_LABELS, type ScoreBand} from "~/lib/resumes";
+
+interface ResumeFiltersProps {
+    filters: Filters;
+    onChange: (filters: Filters) => void;
+    resultCount: number;
+    totalCount: number;
+}
+
+const ResumeFilters = ({ filters, onChange, resultCount, totalCount }: ResumeFiltersProps) => {
+    const isFiltered = !!filters.query || !!filters.band;
+
+    return (
+        <div className="flex flex-col gap-2 w-full max-w-[1850px]">
+            <div className="flex flex-row max-md:flex-col gap-4 w-full">
+                <input
+                    type="search"
+                    value={filters.query}
+                    onChange={(e) => onChange({ ...filters, query: e.target.value })}
+                    placeholder="Search by company or job title"
+                    aria-label="Search resumes"
+                />
+                <select
+                    value={filters.band}
+                    onChange={(e) => onChange({ ...filters, band: e.target.value as ScoreBand | '' })}
+                    className="p-4 inset-shadow rounded-2xl focus:outline-none bg-white md:w-64"
+                    aria-label="Filter by score"
+                >
+                    <option value="">All scores</option>
+                    {Object.entries(SCORE_BAND_LABELS).map(([band, label]) => (
+                        <option key={band} value={band}>{label}</option>
+                    ))}
+                </select>
+                <select
+                    value={filters.sort}
+                    onChange={(e) => onChange({ ...filters, sort: e.target.value as ResumeSort })}
+                    className="p-4 inset-shadow rounded-2xl focus:outline-none bg-white md:w-64"
+                    aria-label="Sort resumes"
+                >
+                    {Object.entries(RESUME_SORTS).map(([sort, label]) => (
+                        <option key={sort} value={sort}>{label}</option>
+                    ))}
+                </select>
+            </div>
+            {isFiltered && (
+                <div className="flex flex-row gap-4 items-center text-sm text-gray-500">
+                    <p>Showing {resultCount} of {totalCount} resumes</p>
+                    <button
+                        className="underline cursor-pointer"
+                        onClick={() => onChange({ ...filters, query: '', band: '' })}
+                    >
+                        Clear filters
+                    </button>
+                </div>
+            )}
+        </div>
+    )
+}
+export default ResumeFilters
@@ -0,0 +1,32 @@
+import {detectRubric, RUBRICS} from "~/lib/rubrics";
+
+interface RubricSelectProps {
+    id: string;
+    // Empty means auto-detect from the job title
+    value: RubricId | '';
+    jobTitle: string;
+    onChange: (value: RubricId | '') => void;
+}
+
+const RubricSelect = ({ id, value, jobTitle, onChange }: RubricSelectProps) => {
+    const rubric = value ? RUBRICS[value] : detectRubric(jobTitle);
+
+    return (
+        <div className="form-div">
+            <label htmlFor={id}>Review Rubric</label>
+            <select
+                id={id}
+                value={value}
+                onChange={(e) => onChange(e.target.value as RubricId | '')}
+                className="w-full p-4 inset-shadow rounded-2xl focus:outline-none bg-white"
+            >
+                <option value="">Auto-detect from job title ({detectRubric(jobTitle).label})</option>
+                {Object.values(RUBRICS).map((rubric) => (
+                    <option key={rubric.id} value={rubric.id}>{rubric.label}</option>
+                ))}
+            </select>
+            <p className="text-sm text-gray-500 text-left">{rubric.description}</p>
+        </div>
+    )
+}
+export default RubricSelect
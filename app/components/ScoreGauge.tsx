@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState } from "react";
+import type { ScoreBreakdownItem } from "~/lib/scoring";
 
-const ScoreGauge = ({ score = 75 }: { score: number }) => {
+const ScoreGauge = ({ score = 75, breakdown }: { score: number, breakdown?: ScoreBreakdownItem[] }) => {
     const [pathLength, setPathLength] = useState(0);
     const pathRef = useRef<SVGPathElement>(null);
 
@@ -14,7 +15,7 @@ const ScoreGauge = ({ score = 75 }: { score: number }) => {
 
     return (
         <div className="flex flex-col items-center">
-            <div className="relative w-40 h-20">
+            <div className="relative w-40 h-20 group" tabIndex={breakdown ? 0 : undefined}>
                 <svg viewBox="0 0 100 50" className="w-full h-full">
                     <defs>
                         <linearGradient
@@ -54,6 +55,22 @@ const ScoreGauge = ({ score = 75 }: { score: number }) => {
                 <div className="absolute inset-0 flex flex-col items-center justify-center pt-2">
                     <div className="text-xl font-semibold pt-4">{score}/100</div>
                 </div>
+
+                {breakdown && (
+                    <div className="absolute left-1/2 top-full z-10 mt-2 w-64 -translate-x-1/2 rounded-xl bg-white p-3 shadow-lg hidden group-hover:block group-focus:block">
+                        <p className="text-sm font-semibold mb-2">How this score is calculated</p>
+                        {breakdown.map((item) => (
+                            <div key={item.category} className="flex flex-row justify-between text-sm text-gray-600">
+                                <span>{item.label} ({Math.round(item.weight * 100)}%)</span>
+                                <span>{item.score} → {item.contribution.toFixed(1)}</span>
+                            </div>
+                        ))}
+                        <div className="flex flex-row justify-between text-sm font-semibold border-t border-gray-200 mt-2 pt-2">
+                            <span>Overall</span>
+                            <span>{score}/100</span>
+                        </div>
+                    </div>
+                )}
             </div>
         </div>
     );
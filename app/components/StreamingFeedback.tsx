@@ -0,0 +1,63 @@
+import ScoreBadge from "~/components/ScoreBadge";
+import {FEEDBACK_CATEGORIES, FEEDBACK_CATEGORY_LABELS} from "~/lib/feedback";
+
+const PendingScore = () => (
+    <div className="h-7 w-24 rounded-full bg-gray-200 animate-pulse" />
+)
+
+// Fills in each feedback category as it arrives from a streamed analysis
+const StreamingFeedback = ({ partial }: { partial: Partial<Feedback> }) => {
+    const received = FEEDBACK_CATEGORIES.filter((category) => partial[category]).length;
+
+    return (
+        <div className="bg-white rounded-2xl shadow-md w-full p-4 flex flex-col gap-4">
+            <div className="flex flex-row justify-between items-center gap-4">
+                <div className="flex flex-col gap-1">
+                    <h3 className="text-2xl font-bold">Analyzing your resume...</h3>
+                    <p className="text-sm text-gray-500">
+                        {received} of {FEEDBACK_CATEGORIES.length} categories received
+                    </p>
+                </div>
+                {partial.overallScore !== undefined ? (
+                    <p className="text-3xl font-semibold">{partial.overallScore}/100</p>
+                ) : (
+                    <PendingScore />
+                )}
+            </div>
+            {FEEDBACK_CATEGORIES.map((category) => {
+                const section = partial[category];
+
+                return (
+                    <div key={category} className="flex flex-col gap-2 bg-gray-50 rounded-2xl p-4">
+                        <div className="flex flex-row justify-between items-center gap-2">
+                            <p className="text-2xl">{FEEDBACK_CATEGORY_LABELS[category]}</p>
+                            {section ? (
+                                <div className="flex flex-row gap-2 items-center animate-in fade-in duration-1000">
+                                    <ScoreBadge score={section.score} />
+                                    <p className="text-2xl">{section.score}/100</p>
+                                </div>
+                            ) : (
+                                <PendingScore />
+                            )}
+                        </div>
+                        {section && section.tips.length > 0 && (
+                            <ul className="flex flex-col gap-1 animate-in fade-in duration-1000">
+                                {section.tips.map((tip, index) => (
+                                    <li key={index} className="flex flex-row gap-2 items-start">
+                                        <img
+                                            src={tip.type === 'good' ? "/icons/check.svg" : "/icons/warning.svg"}
+                                            alt={tip.type}
+                                            className="size-4 mt-1"
+                                        />
+                                        <p className="text-gray-600">{tip.tip}</p>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    )
+}
+export default StreamingFeedback
@@ -1,5 +1,7 @@
 import ScoreGauge from "~/components/ScoreGauge";
 import ScoreBadge from "~/components/ScoreBadge";
+import {computeOverallScore} from "~/lib/scoring";
+import {getRubric} from "~/lib/rubrics";
 
 const Category = ({ title, score }: { title: string, score: number }) => {
     const textColor = score > 70 ? 'text-green-600'
@@ -21,16 +23,23 @@ const Category = ({ title, score }: { title: string, score: number }) => {
     )
 }
 
-const Summary = ({ feedback }: { feedback: Feedback }) => {
+const Summary = ({ feedback, rubricId }: { feedback: Feedback, rubricId?: RubricId }) => {
+    const rubric = getRubric(rubricId);
+    const { score, modelScore, breakdown } = computeOverallScore(feedback, rubric);
+
     return (
         <div className="bg-white rounded-2xl shadow-md w-full">
             <div className="flex flex-row items-center p-4 gap-8">
-                <ScoreGauge score={feedback.overallScore} />
+                <ScoreGauge score={score} breakdown={breakdown} />
 
                 <div className="flex flex-col gap-2">
                     <h2 className="text-2xl font-bold">Your Resume Score</h2>
                     <p className="text-sm text-gray-500">
-                        This score is calculated based on the variables listed below.
+                        This score is calculated from the category scores using the {rubric.label} rubric weights.
+                        Hover the gauge for the breakdown.
+                    </p>
+                    <p className="text-sm text-gray-500">
+                        The AI's own overall score: {modelScore}/100
                     </p>
                 </div>
             </div>
@@ -0,0 +1,92 @@
+import {create} from "zustand";
+import type {AIService, KVService, ServiceResult} from "~/lib/services";
+import {requestFeedback} from "~/lib/feedback";
+import {appendAnalysisVersion, createAnalysisVersion, updateResumeRecord} from "~/lib/resumes";
+import {getAnalysisSettings} from "~/lib/settings";
+import {detectRubric, getRubric} from "~/lib/rubrics";
+
+// Live state of analyses running in this tab, keyed by resume id. It outlives the
+// page that started the run, so the results page can pick up a stream mid-flight.
+
+export interface AnalysisProgress {
+    status: 'streaming' | 'done' | 'error';
+    partial: Partial<Feedback>;
+    error?: string;
+    // The saved record once the run has finished
+    resume?: Resume;
+}
+
+interface AnalysisProgressStore {
+    progress: Record<string, AnalysisProgress>;
+    update: (id: string, progress: AnalysisProgress) => void;
+    clear: (id: string) => void;
+}
+
+export const useAnalysisProgress = create<AnalysisProgressStore>((set) => ({
+    progress: {},
+    update: (id, progress) => set((state) => ({ progress: { ...state.progress, [id]: progress } })),
+    clear: (id) => set((state) => {
+        const { [id]: _, ...progress } = state.progress;
+        return { progress };
+    }),
+}));
+
+export interface AnalysisRun {
+    analysisPath: string;
+    jobTitle: string;
+    jobDescription: string;
+    atsAnalysis?: ATSAnalysis;
+    jobRequirements?: JobRequirements;
+    rubricId?: RubricId;
+}
+
+// Streams feedback for a stored resume, then saves it as a new version of the record
+export const runAnalysis = async (
+    ai: AIService,
+    kv: KVService,
+    resume: Resume,
+    { analysisPath, jobTitle, jobDescription, atsAnalysis, jobRequirements, rubricId }: AnalysisRun
+): Promise<ServiceResult<Resume>> => {
+    const { update } = useAnalysisProgress.getState();
+    update(resume.id, { status: 'streaming', partial: {} });
+
+    const fail = (error: string) => {
+        update(resume.id, { status: 'error', partial: {}, error });
+        return { error };
+    }
+
+    const settings = getAnalysisSettings();
+    const rubric = rubricId ? getRubric(rubricId) : detectRubric(jobTitle);
+    const result = await requestFeedback(ai, {
+        analysisPath,
+        jobTitle,
+        jobDescription,
+        settings,
+        rubric,
+        onProgress: (partial) => update(resume.id, { status: 'streaming', partial }),
+    });
+    if (!result.data) return fail(result.error || 'Failed to analyze resume');
+
+    const version = createAnalysisVersion({
+        feedback: result.data,
+        atsAnalysis,
+        jobRequirements,
+        jobTitle,
+        jobDescription,
+        model: settings.model || ai.defaultModel,
+        preset: settings.preset,
+        rubricId: rubric.id,
+    });
+
+    // Merged into the stored record rather than the copy the run started from, which may be
+    // minutes old by now and miss application edits made while the feedback streamed in
+    const { data: updated, error } = await updateResumeRecord(kv, resume.id, (current) => {
+        const { feedback, atsAnalysis, jobRequirements, jobDescription, rubricId, versions } =
+            appendAnalysisVersion(current, version);
+        return { feedback, atsAnalysis, jobRequirements, jobDescription, rubricId, versions, job: resume.job };
+    });
+    if (!updated) return fail(`Failed to store feedback. ${error}`);
+
+    update(resume.id, { status: 'done', partial: result.data, resume: updated });
+    return { data: updated };
+}
@@ -0,0 +1,34 @@
+// Application tracking metadata stored alongside each resume record
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = ['draft', 'applied', 'interviewing', 'offer', 'rejected'];
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+    draft: 'Draft',
+    applied: 'Applied',
+    interviewing: 'Interviewing',
+    offer: 'Offer',
+    rejected: 'Rejected',
+};
+
+export const isApplicationStatus = (value: unknown): value is ApplicationStatus =>
+    typeof value === 'string' && (APPLICATION_STATUSES as string[]).includes(value);
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Records created before tracking existed are treated as drafts
+export const getApplication = (resume: Resume): ApplicationInfo => ({
+    ...resume.application,
+    status: isApplicationStatus(resume.application?.status) ? resume.application.status : 'draft',
+});
+
+export const updateApplication = (resume: Resume, changes: Partial<ApplicationInfo>): Resume => {
+    const previous = getApplication(resume);
+    const application = { ...previous, ...changes, updatedAt: Date.now() };
+
+    // Moving a draft to applied stamps the applied date; a date cleared later stays cleared
+    if (previous.status === 'draft' && application.status === 'applied' && !application.appliedDate) {
+        application.appliedDate = today();
+    }
+
+    return { ...resume, application };
+}
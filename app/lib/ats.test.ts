@@ -0,0 +1,65 @@
+import {describe, expect, it} from "vitest";
+import {analyzeATS, detectSections, extractKeywords, tokenize} from "~/lib/ats";
+
+const resume = `Summary
+Backend engineer building APIs.
+
+Experience
+Acme Corp, 2019 - 2023
+Built REST APIs in Python and PostgreSQL, deployed with Docker.
+
+Education
+B.S. Computer Science
+
+Skills
+Python, Docker, SQL, C++`;
+
+describe('tokenize', () => {
+    it('keeps symbols that belong to technology names', () => {
+        expect(tokenize('C++, C# and Node.js.')).toEqual(['c++', 'c#', 'and', 'node.js']);
+    });
+});
+
+describe('extractKeywords', () => {
+    it('ranks terms by frequency and leaves out stop words', () => {
+        expect(extractKeywords('Python and Python with Docker for the team', 2)).toEqual(['python', 'docker']);
+    });
+});
+
+describe('detectSections', () => {
+    it('finds headings at the start of a line', () => {
+        expect(detectSections(resume)).toEqual(['summary', 'experience', 'education', 'skills']);
+    });
+});
+
+describe('analyzeATS', () => {
+    it('matches keywords, folding simple plurals together', () => {
+        const analysis = analyzeATS(resume, 'Build APIs with Python, Docker and Kubernetes.');
+
+        expect(analysis.hasJobDescription).toBe(true);
+        expect(analysis.matchedKeywords).toEqual(expect.arrayContaining(['apis', 'python', 'docker']));
+        expect(analysis.missingKeywords).toContain('kubernetes');
+    });
+
+    it('lists unmatched terms from must-have lines', () => {
+        const analysis = analyzeATS(resume, 'Python is nice.\nKubernetes experience is required.');
+
+        expect(analysis.missingMustHaves).toEqual(['kubernetes']);
+    });
+
+    it('scores only the sections without a job description', () => {
+        const analysis = analyzeATS('Experience\nAcme\n\nSkills\nPython');
+
+        expect(analysis.hasJobDescription).toBe(false);
+        expect(analysis.sections).toEqual([
+            { name: 'experience', found: true },
+            { name: 'education', found: false },
+            { name: 'skills', found: true },
+        ]);
+        expect(analysis.score).toBe(67);
+    });
+
+    it('gives a full score when every keyword and section is present', () => {
+        expect(analyzeATS(resume, 'Python and Docker are required.').score).toBe(100);
+    });
+});
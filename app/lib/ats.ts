@@ -0,0 +1,101 @@
+// Deterministic ATS keyword matching, run entirely in the browser
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'with', 'that', 'this', 'you', 'your', 'are', 'will', 'our', 'have',
+    'from', 'who', 'what', 'they', 'their', 'about', 'into', 'all', 'any', 'can', 'has', 'its',
+    'not', 'but', 'was', 'were', 'been', 'being', 'also', 'more', 'most', 'other', 'some', 'such',
+    'than', 'then', 'there', 'these', 'those', 'through', 'using', 'use', 'via', 'within', 'while',
+    'work', 'working', 'team', 'teams', 'role', 'roles', 'able', 'ability', 'strong', 'including',
+    'experience', 'years', 'year', 'plus', 'etc', 'well', 'new', 'good', 'great', 'excellent',
+    'join', 'looking', 'responsibilities', 'requirements', 'required', 'preferred', 'must',
+    'should', 'would', 'candidate', 'candidates', 'position', 'company', 'help', 'across',
+    'per', 'one', 'two', 'three', 'each', 'every', 'how', 'why', 'when', 'where',
+    'skills', 'knowledge', 'understanding', 'familiarity', 'proficiency', 'demonstrated',
+    'need', 'needs', 'ideal', 'like', 'based', 'make', 'opportunity', 'apply', 'want',
+]);
+
+// Lines containing these words mark the terms on them as must-haves
+const MUST_HAVE_PATTERN = /\b(must|required|requirements?|minimum|mandatory|essential|need to have)\b/i;
+
+export const RESUME_SECTIONS: Record<string, RegExp> = {
+    summary: /^\s*(summary|profile|objective|about me)\b/im,
+    experience: /^\s*(work |professional )?(experience|employment|work history)\b/im,
+    education: /^\s*(education|academic)\b/im,
+    skills: /^\s*(skills|technical skills|technologies|core competencies)\b/im,
+    projects: /^\s*(projects|selected projects)\b/im,
+};
+
+export const REQUIRED_SECTIONS = ['experience', 'education', 'skills'];
+
+const KEYWORD_LIMIT = 25;
+
+export const tokenize = (text: string): string[] =>
+    (text.toLowerCase().match(/[a-z][a-z0-9+#.-]{1,}/g) || [])
+        .map((token) => token.replace(/[.-]+$/, ''))
+        .filter((token) => token.length > 2 || /[+#]/.test(token));
+
+// Folds simple plurals together so "apis" matches "api"
+const normalize = (token: string) =>
+    token.length > 4 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token;
+
+export const extractKeywords = (text: string, limit: number = KEYWORD_LIMIT): string[] => {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(text)) {
+        if (STOP_WORDS.has(token)) continue;
+        counts.set(token, (counts.get(token) || 0) + 1);
+    }
+
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, limit)
+        .map(([token]) => token);
+}
+
+export const detectSections = (text: string): string[] =>
+    Object.keys(RESUME_SECTIONS).filter((name) => RESUME_SECTIONS[name].test(text));
+
+const extractMustHaves = (jobDescription: string, keywords: string[]): string[] => {
+    const mustHaveTokens = new Set(
+        jobDescription
+            .split(/\n|(?<=[.;])\s/)
+            .filter((line) => MUST_HAVE_PATTERN.test(line))
+            .flatMap((line) => tokenize(line))
+    );
+
+    return keywords.filter((keyword) => mustHaveTokens.has(keyword));
+}
+
+export const analyzeATS = (resumeText: string, jobDescription: string = ''): ATSAnalysis => {
+    const resumeTokens = new Set(tokenize(resumeText).map(normalize));
+    const keywords = extractKeywords(jobDescription);
+    const mustHaves = extractMustHaves(jobDescription, keywords);
+
+    const isMatched = (keyword: string) => resumeTokens.has(normalize(keyword));
+    const matchedKeywords = keywords.filter(isMatched);
+    const missingKeywords = keywords.filter((keyword) => !isMatched(keyword));
+    const missingMustHaves = mustHaves.filter((keyword) => !isMatched(keyword));
+
+    const foundSections = detectSections(resumeText);
+    const sections = REQUIRED_SECTIONS.map((name) => ({ name, found: foundSections.includes(name) }));
+    const sectionRatio = sections.filter((section) => section.found).length / sections.length;
+
+    const keywordCoverage = keywords.length ? matchedKeywords.length / keywords.length : 0;
+    const mustHaveCoverage = mustHaves.length
+        ? (mustHaves.length - missingMustHaves.length) / mustHaves.length
+        : keywordCoverage;
+
+    // Without a job description only the section check is meaningful
+    const score = keywords.length
+        ? keywordCoverage * 60 + mustHaveCoverage * 20 + sectionRatio * 20
+        : sectionRatio * 100;
+
+    return {
+        score: Math.round(score),
+        hasJobDescription: keywords.length > 0,
+        keywordCoverage,
+        matchedKeywords,
+        missingKeywords,
+        missingMustHaves,
+        sections,
+    };
+}
@@ -0,0 +1,91 @@
+import {describe, expect, it, vi} from "vitest";
+import type {FileStorageService, KVService} from "~/lib/services";
+import {createBackup, importBackup, parseBackup} from "~/lib/backup";
+
+const section = { score: 70, tips: [] };
+const feedback = { overallScore: 70, ATS: section, toneAndStyle: section, content: section, structure: section, skills: section };
+
+// Just enough of a key-value store for export and import
+const memoryKv = (entries: Record<string, unknown>) => {
+    const store = new Map(Object.entries(entries).map(([key, value]) => [key, JSON.stringify(value)]));
+    const matching = (pattern: string) => [...store.keys()].filter((key) => key.startsWith(pattern.replace('*', '')));
+
+    const kv = {
+        get: async (key: string) => ({ data: store.get(key) ?? null }),
+        set: async (key: string, value: string) => {
+            store.set(key, value);
+            return { data: true };
+        },
+        delete: async () => ({ data: true }),
+        list: async (pattern: string) => ({ data: matching(pattern) }),
+        listValues: async (pattern: string) => ({ data: matching(pattern).map((key) => ({ key, value: store.get(key)! })) }),
+        flush: async () => ({ data: true }),
+    } as KVService;
+
+    return { kv, store };
+}
+
+const fs = { upload: vi.fn(), read: vi.fn(), write: vi.fn(), delete: vi.fn(), list: vi.fn() } as unknown as FileStorageService;
+
+const resume = (id: string, extra: Partial<Resume> = {}): Resume => ({
+    id,
+    createdAt: 1700000000000,
+    companyName: 'Acme',
+    jobTitle: id,
+    resumePath: `/resumes/${id}.pdf`,
+    imagePath: '',
+    feedback,
+    ...extra,
+});
+
+describe('createBackup', () => {
+    it('includes the conversation of each resume', async () => {
+        const thread: ChatThread = { resumeId: 'a', messages: [{ role: 'user', content: 'Hi' }], updatedAt: 1 };
+        const { kv } = memoryKv({
+            'resume:a': resume('a'),
+            'chat:a': thread,
+            'chat:gone': { resumeId: 'gone', messages: [], updatedAt: 1 },
+        });
+
+        const { data } = await createBackup({ fs, kv }, { includeFiles: false });
+
+        expect(data?.resumes.map((item) => item.id)).toEqual(['a']);
+        expect(data?.chats).toEqual([thread]);
+    });
+});
+
+describe('parseBackup', () => {
+    it('accepts backups made before conversations were included', () => {
+        const { data } = parseBackup(JSON.stringify({ format: 'resumind-backup', version: 1, exportedAt: 0, resumes: [], files: [] }));
+
+        expect(data?.chats).toEqual([]);
+    });
+});
+
+describe('importBackup', () => {
+    it('moves conversations to the new ids and stops running jobs', async () => {
+        const running: AnalysisJob = { step: 'analyze', status: 'running', attempts: 1, updatedAt: 0 };
+        const { kv, store } = memoryKv({});
+
+        const { data: summary } = await importBackup({ fs, kv }, {
+            format: 'resumind-backup',
+            version: 1,
+            exportedAt: 0,
+            resumes: [resume('a'), resume('b', { feedback: undefined, job: running })],
+            chats: [{ resumeId: 'a', messages: [{ role: 'user', content: 'Hi' }], updatedAt: 1 }],
+            files: [],
+        });
+
+        expect(summary).toEqual({ imported: 2, duplicates: 0, errors: [] });
+
+        const restored = [...store.entries()]
+            .filter(([key]) => key.startsWith('resume:'))
+            .map(([, value]) => JSON.parse(value) as Resume);
+        const a = restored.find((item) => item.jobTitle === 'a')!;
+        const b = restored.find((item) => item.jobTitle === 'b')!;
+
+        expect(JSON.parse(store.get(`chat:${a.id}`)!).resumeId).toBe(a.id);
+        expect(store.has(`chat:${b.id}`)).toBe(false);
+        expect(b.job?.status).toBe('failed');
+    });
+});
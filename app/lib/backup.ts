@@ -0,0 +1,319 @@
+import type {FileStorageService, KVService, ServiceResult} from "~/lib/services";
+import {FEEDBACK_CATEGORIES, FEEDBACK_CATEGORY_LABELS, validateFeedback} from "~/lib/feedback";
+import {isAnalyzed, normalizeResume, parseResumes, RESUME_KEY_PATTERN, resumeKey, resumeTitle} from "~/lib/resumes";
+import {getOverallScore} from "~/lib/scoring";
+import {APPLICATION_STATUS_LABELS} from "~/lib/applications";
+import {CHAT_KEY_PATTERN, chatKey} from "~/lib/chat";
+import {blobToDataUrl, generateUUID} from "~/lib/utils";
+
+// A dashboard backup is a single JSON document holding every `resume:*` record, their
+// `chat:*` follow-up threads and, optionally, the files they point to as data URLs. Importing
+// gives each record a new id, so a backup can be restored next to the data it was taken from.
+
+const BACKUP_FORMAT = 'resumind-backup';
+const BACKUP_VERSION = 1;
+
+export interface BackupFile {
+    path: string;
+    name: string;
+    // data: URL of the file contents
+    data: string;
+}
+
+export interface Backup {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: number;
+    resumes: Resume[];
+    // Absent from backups made before conversations were included
+    chats?: ChatThread[];
+    files: BackupFile[];
+}
+
+export interface BackupServices {
+    fs: FileStorageService;
+    kv: KVService;
+}
+
+export interface ImportSummary {
+    imported: number;
+    duplicates: number;
+    // One message per record or file that could not be restored
+    errors: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+// Every file a record points to, in the order they were written
+const resumeFilePaths = (resume: Resume) => [
+    resume.resumePath,
+    resume.imagePath,
+    ...(resume.pageImagePaths || []),
+    resume.analysisPath,
+    ...(resume.coverLetters || []).map((version) => version.path),
+].filter((path): path is string => !!path);
+
+const fileName = (path: string) => path.split('/').pop() || 'file';
+
+// FNV-1a, enough to tell two reviews apart without comparing them field by field
+const hashText = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < text.length; index++) {
+        hash ^= text.charCodeAt(index);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+}
+
+// Records are the same resume when they were created at the same moment for the same job and
+// hold the same review. The review matters for older records, which have no creation time or
+// job details and often share a file name such as resume.pdf.
+const duplicateKey = (resume: Resume) => [
+    resume.createdAt || 0,
+    resume.companyName || '',
+    resume.jobTitle || '',
+    fileName(resume.resumePath),
+    hashText(JSON.stringify(resume.feedback || null)),
+].join('|');
+
+// Like Promise.all over items.map(map), but one item at a time. Restoring files in order lets a
+// path shared between records be found in the cache instead of being uploaded again.
+const mapInOrder = async <T, R>(items: T[], map: (item: T) => Promise<R>): Promise<R[]> => {
+    const results: R[] = [];
+    for (const item of items) results.push(await map(item));
+    return results;
+}
+
+const isChatThread = (value: unknown): value is ChatThread =>
+    isRecord(value) && typeof value.resumeId === 'string' && Array.isArray(value.messages);
+
+const loadChats = async (kv: KVService): Promise<ServiceResult<ChatThread[]>> => {
+    const { data, error } = await kv.listValues(CHAT_KEY_PATTERN);
+    if (!data) return { error: error || 'Failed to load conversations' };
+
+    return {
+        data: data.flatMap((item) => {
+            try {
+                const thread = JSON.parse(item.value);
+                return isChatThread(thread) ? [thread] : [];
+            } catch {
+                console.warn(`Skipping unreadable ${item.key}`);
+                return [];
+            }
+        }),
+    };
+}
+
+// A job that was running when the backup was taken cannot carry on after a restore, and would
+// otherwise be picked up by the job resumer. It is restored as failed so it can be retried.
+const settleJob = (job?: AnalysisJob): AnalysisJob | undefined =>
+    job?.status === 'running'
+        ? { ...job, status: 'failed', error: 'The analysis was interrupted when the backup was taken', updatedAt: Date.now() }
+        : job;
+
+const loadResumes = async (kv: KVService): Promise<ServiceResult<Resume[]>> => {
+    const { data, error } = await kv.listValues(RESUME_KEY_PATTERN);
+    if (!data) return { error: error || 'Failed to load resumes' };
+
+    return { data: parseResumes(data) };
+}
+
+export const createBackup = async (
+    { fs, kv }: BackupServices,
+    { includeFiles }: { includeFiles: boolean }
+): Promise<ServiceResult<Backup>> => {
+    const { data: resumes, error } = await loadResumes(kv);
+    if (!resumes) return { error };
+
+    const { data: chats, error: chatError } = await loadChats(kv);
+    if (!chats) return { error: chatError };
+    const resumeIds = new Set(resumes.map((resume) => resume.id));
+
+    const files: BackupFile[] = [];
+    if (includeFiles) {
+        const paths = [...new Set(resumes.flatMap(resumeFilePaths))];
+        for (const path of paths) {
+            const { data: blob } = await fs.read(path);
+            // Missing files are left out; the record still restores without its preview
+            if (!blob) continue;
+            files.push({ path, name: fileName(path), data: await blobToDataUrl(blob) });
+        }
+    }
+
+    return {
+        data: {
+            format: BACKUP_FORMAT,
+            version: BACKUP_VERSION,
+            exportedAt: Date.now(),
+            resumes,
+            chats: chats.filter((thread) => resumeIds.has(thread.resumeId)),
+            files,
+        },
+    };
+}
+
+export const backupFileName = (extension: 'json' | 'md') =>
+    `resumind-backup-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+// Human-readable overview of every review, for sharing rather than restoring
+export const backupToMarkdown = (resumes: Resume[]): string => {
+    const sections = resumes
+        .filter(isAnalyzed)
+        .sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0))
+        .map((resume) => {
+            const lines = [
+                `## ${resumeTitle(resume)}`,
+                '',
+                ...(resume.createdAt ? [`- Analyzed: ${new Date(resume.createdAt).toLocaleDateString()}`] : []),
+                ...(resume.application ? [`- Application: ${APPLICATION_STATUS_LABELS[resume.application.status]}`] : []),
+                `- Overall score: ${getOverallScore(resume)}/100`,
+                ...FEEDBACK_CATEGORIES.map((category) =>
+                    `- ${FEEDBACK_CATEGORY_LABELS[category]}: ${resume.feedback[category].score}/100`),
+                '',
+            ];
+
+            for (const category of FEEDBACK_CATEGORIES) {
+                const improvements = resume.feedback[category].tips.filter((tip) => tip.type === 'improve');
+                if (!improvements.length) continue;
+
+                lines.push(`### ${FEEDBACK_CATEGORY_LABELS[category]} improvements`, '');
+                lines.push(...improvements.map((tip) => `- ${tip.tip}`), '');
+            }
+
+            return lines.join('\n');
+        });
+
+    return [`# Resume Reviews`, '', `Exported ${new Date().toLocaleString()}`, '', ...sections].join('\n');
+}
+
+// Returns the problems that would make a record unsafe to write back into the store
+export const validateResumeRecord = (value: unknown): string[] => {
+    if (!isRecord(value)) return ['Record must be an object'];
+
+    const errors: string[] = [];
+    if (typeof value.id !== 'string' || !value.id) errors.push('id is missing');
+    if (typeof value.resumePath !== 'string' || !value.resumePath) errors.push('resumePath is missing');
+    if (typeof value.imagePath !== 'string') errors.push('imagePath must be a string');
+    for (const key of ['companyName', 'jobTitle', 'jobDescription', 'analysisPath']) {
+        if (!isOptionalString(value[key])) errors.push(`${key} must be a string`);
+    }
+    if (value.createdAt !== undefined && typeof value.createdAt !== 'number') errors.push('createdAt must be a number');
+    if (value.versions !== undefined && !Array.isArray(value.versions)) errors.push('versions must be an array');
+
+    // Records without feedback are only valid while they have a job that can produce it
+    if (value.feedback) {
+        errors.push(...validateFeedback(value.feedback).errors.map((error) => `feedback: ${error}`));
+    } else if (!isRecord(value.job)) {
+        errors.push('feedback is missing');
+    }
+
+    return errors;
+}
+
+export const parseBackup = (text: string): ServiceResult<Backup> => {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch {
+        return { error: 'The file is not valid JSON' };
+    }
+
+    if (!isRecord(value) || value.format !== BACKUP_FORMAT) {
+        return { error: 'The file is not a Resumind backup' };
+    }
+    if (typeof value.version !== 'number' || value.version > BACKUP_VERSION) {
+        return { error: 'The backup was made by a newer version of the app' };
+    }
+    if (!Array.isArray(value.resumes)) {
+        return { error: 'The backup has no resumes' };
+    }
+
+    const files = Array.isArray(value.files)
+        ? value.files.filter((file: unknown): file is BackupFile =>
+            isRecord(file) && typeof file.path === 'string' && typeof file.data === 'string')
+        : [];
+
+    const chats = Array.isArray(value.chats) ? value.chats.filter(isChatThread) : [];
+
+    return { data: { ...(value as Backup), chats, files } };
+}
+
+export const importBackup = async ({ fs, kv }: BackupServices, backup: Backup): Promise<ServiceResult<ImportSummary>> => {
+    const { data: existing, error } = await loadResumes(kv);
+    if (!existing) return { error };
+
+    const seen = new Set(existing.map(duplicateKey));
+    const files = new Map(backup.files.map((file) => [file.path, file]));
+    const chats = new Map((backup.chats || []).map((thread) => [thread.resumeId, thread]));
+    // Files shared between records are only restored once
+    const restoredPaths = new Map<string, string>();
+    const summary: ImportSummary = { imported: 0, duplicates: 0, errors: [] };
+
+    const restoreFile = async (path: string): Promise<string> => {
+        const restored = restoredPaths.get(path);
+        if (restored) return restored;
+
+        const file = files.get(path);
+        // Without the file in the backup, keep the path in case it is still in this storage
+        if (!file) return path;
+
+        const blob = await fetch(file.data).then((response) => response.blob());
+        const { data: uploaded, error } = await fs.upload([new File([blob], file.name || fileName(path), { type: blob.type })]);
+        if (!uploaded) throw new Error(error || `Failed to restore ${file.name}`);
+
+        restoredPaths.set(path, uploaded.path);
+        return uploaded.path;
+    }
+
+    for (const [index, value] of backup.resumes.entries()) {
+        const problems = validateResumeRecord(value);
+        const label = isRecord(value) ? resumeTitle(value as Resume) : `Record ${index + 1}`;
+        if (problems.length) {
+            summary.errors.push(`${label}: ${problems.join('; ')}`);
+            continue;
+        }
+
+        const resume = normalizeResume(value);
+        const key = duplicateKey(resume);
+        if (seen.has(key)) {
+            summary.duplicates++;
+            continue;
+        }
+
+        try {
+            const restored: Resume = {
+                ...resume,
+                id: generateUUID(),
+                job: settleJob(resume.job),
+                resumePath: await restoreFile(resume.resumePath),
+                imagePath: resume.imagePath && await restoreFile(resume.imagePath),
+                pageImagePaths: resume.pageImagePaths && await mapInOrder(resume.pageImagePaths, restoreFile),
+                analysisPath: resume.analysisPath && await restoreFile(resume.analysisPath),
+                coverLetters: resume.coverLetters && await mapInOrder(resume.coverLetters, async (version) =>
+                    ({ ...version, path: await restoreFile(version.path) })),
+            };
+
+            const { error } = await kv.set(resumeKey(restored.id), JSON.stringify(restored));
+            if (error) throw new Error(error);
+
+            seen.add(key);
+            summary.imported++;
+
+            const thread = chats.get(resume.id);
+            if (thread) {
+                const { error: chatError } = await kv.set(
+                    chatKey(restored.id),
+                    JSON.stringify({ ...thread, resumeId: restored.id })
+                );
+                if (chatError) summary.errors.push(`${label}: Failed to restore the conversation. ${chatError}`);
+            }
+        } catch (error) {
+            summary.errors.push(`${label}: ${error instanceof Error ? error.message : 'Failed to restore'}`);
+        }
+    }
+
+    return { data: summary };
+}
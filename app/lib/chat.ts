@@ -0,0 +1,86 @@
+import type {AIService, KVService, ServiceResult} from "~/lib/services";
+import {getResponseText} from "~/lib/feedback";
+import {getGenerationOptions} from "~/lib/settings";
+import {prepareChatContext} from "../../constants";
+
+// Kept outside the `resume:*` namespace so dashboard listings only see resume records
+export const CHAT_KEY_PATTERN = 'chat:*';
+
+export const chatKey = (resumeId: string) => `chat:${resumeId}`;
+
+// Resume text beyond this is cut from the context to keep requests small
+const MAX_RESUME_TEXT = 12000;
+
+export const CHAT_SUGGESTIONS = [
+    'Why did my structure score come out this way?',
+    'Rewrite my summary for this job description',
+    'Which missing skills should I add first?',
+];
+
+export const loadChat = async (kv: KVService, resumeId: string): Promise<ChatThread> => {
+    const { data } = await kv.get(chatKey(resumeId));
+    if (data) {
+        try {
+            const thread = JSON.parse(data) as ChatThread;
+            if (Array.isArray(thread.messages)) return thread;
+        } catch (error) {
+            console.error('Error reading chat thread:', error);
+        }
+    }
+
+    return { resumeId, messages: [], updatedAt: 0 };
+}
+
+export const saveChat = async (kv: KVService, thread: ChatThread): Promise<ServiceResult<ChatThread>> => {
+    const { error } = await kv.set(chatKey(thread.resumeId), JSON.stringify(thread));
+    if (error) return { error: `Failed to save conversation. ${error}` };
+    return { data: thread };
+}
+
+export interface ChatRequest {
+    resume: Resume;
+    feedback: Feedback;
+    jobDescription: string;
+    resumeText: string;
+    thread: ChatThread;
+    message: string;
+}
+
+// Sends the thread plus a new question and returns the thread with both turns appended
+export const sendChatMessage = async (
+    ai: AIService,
+    { resume, feedback, jobDescription, resumeText, thread, message }: ChatRequest
+): Promise<ServiceResult<ChatThread>> => {
+    // Providers that read the stored file get it as an attachment; the rest get the extracted text
+    const text = prepareChatContext({
+        jobTitle: resume.jobTitle || '',
+        jobDescription,
+        feedback,
+        resumeText: ai.supportsFileParts ? undefined : resumeText.slice(0, MAX_RESUME_TEXT),
+    });
+    const context: ChatMessage = {
+        role: 'user',
+        content: ai.supportsFileParts
+            ? [{ type: 'file', puter_path: resume.analysisPath || resume.resumePath }, { type: 'text', text }]
+            : text,
+    };
+    const question: ChatMessage = { role: 'user', content: message };
+
+    const result = await ai.chat([
+        context,
+        { role: 'assistant', content: 'I have read your resume and its review. What would you like to know?' },
+        ...thread.messages,
+        question,
+    ], getGenerationOptions());
+    if (!result.data) {
+        return { error: `Failed to get a reply. ${result.error || ''}`.trim(), errorKind: result.errorKind };
+    }
+
+    return {
+        data: {
+            ...thread,
+            messages: [...thread.messages, question, { role: 'assistant', content: getResponseText(result.data) }],
+            updatedAt: Date.now(),
+        },
+    };
+}
@@ -0,0 +1,147 @@
+import type {AIService, FileStorageService, KVService, ServiceResult} from "~/lib/services";
+import {getResponseText} from "~/lib/feedback";
+import {createPdfWriter} from "~/lib/report";
+import {resumeTitle, updateResumeRecord} from "~/lib/resumes";
+import {getGenerationOptions} from "~/lib/settings";
+import {generateUUID, toFileSlug} from "~/lib/utils";
+import {prepareCoverLetterInstructions} from "../../constants";
+
+// Cover letter drafts generated from a resume record. Each saved draft is a text file in
+// file storage, listed on the record as a CoverLetterVersion.
+
+export const COVER_LETTER_TONES: Record<CoverLetterTone, { label: string; instructions: string }> = {
+    professional: {
+        label: 'Professional',
+        instructions: 'Use a polished, formal tone suitable for any employer.',
+    },
+    enthusiastic: {
+        label: 'Enthusiastic',
+        instructions: 'Use a warm, energetic tone that shows genuine excitement about the company and role.',
+    },
+    confident: {
+        label: 'Confident',
+        instructions: 'Use a direct, assertive tone that leads with achievements and impact.',
+    },
+    conversational: {
+        label: 'Conversational',
+        instructions: 'Use a friendly, natural tone, as if writing to someone the candidate has already met.',
+    },
+};
+
+export const COVER_LETTER_LENGTHS: Record<CoverLetterLength, { label: string; instructions: string }> = {
+    short: {
+        label: 'Short (~150 words)',
+        instructions: 'Keep the letter to about 150 words in two or three short paragraphs.',
+    },
+    medium: {
+        label: 'Medium (~250 words)',
+        instructions: 'Keep the letter to about 250 words in three or four paragraphs.',
+    },
+    long: {
+        label: 'Long (~400 words)',
+        instructions: 'Write about 400 words in four or five paragraphs, with specific examples from the resume.',
+    },
+};
+
+export type CoverLetterFormat = 'txt' | 'docx' | 'pdf';
+
+// Resume text beyond this is cut from the prompt to keep requests small
+const MAX_RESUME_TEXT = 12000;
+
+export interface CoverLetterRequest {
+    resume: Resume;
+    feedback: Feedback;
+    resumeText: string;
+    tone: CoverLetterTone;
+    length: CoverLetterLength;
+}
+
+export const generateCoverLetter = async (
+    ai: AIService,
+    { resume, feedback, resumeText, tone, length }: CoverLetterRequest
+): Promise<ServiceResult<string>> => {
+    const instructions = prepareCoverLetterInstructions({
+        companyName: resume.companyName || '',
+        jobTitle: resume.jobTitle || '',
+        jobDescription: resume.jobDescription || '',
+        feedback,
+        // Providers that read the stored file get it as an attachment; the rest get the extracted text
+        resumeText: ai.supportsFileParts ? undefined : resumeText.slice(0, MAX_RESUME_TEXT),
+        tone: COVER_LETTER_TONES[tone].instructions,
+        length: COVER_LETTER_LENGTHS[length].instructions,
+    });
+
+    const result = await ai.chat([{
+        role: 'user',
+        content: ai.supportsFileParts
+            ? [{ type: 'file', puter_path: resume.analysisPath || resume.resumePath }, { type: 'text', text: instructions }]
+            : instructions,
+    }], getGenerationOptions());
+    if (!result.data) {
+        return { error: `Failed to generate cover letter. ${result.error || ''}`.trim(), errorKind: result.errorKind };
+    }
+
+    const letter = getResponseText(result.data).trim();
+    if (!letter) return { error: 'The AI returned an empty cover letter', errorKind: 'parse' };
+
+    return { data: letter };
+}
+
+// Writes the draft to file storage and appends it to the stored record, keeping edits saved
+// since `resume` was loaded
+export const saveCoverLetter = async (
+    { fs, kv }: { fs: FileStorageService, kv: KVService },
+    resume: Resume,
+    { text, tone, length }: { text: string, tone: CoverLetterTone, length: CoverLetterLength }
+): Promise<ServiceResult<Resume>> => {
+    const id = generateUUID();
+    const file = new File([text], `cover-letter-${id}.txt`, { type: 'text/plain' });
+    const { data: uploaded, error: uploadError } = await fs.upload([file]);
+    if (!uploaded) return { error: `Failed to save cover letter. ${uploadError || ''}`.trim() };
+
+    const version: CoverLetterVersion = { id, createdAt: Date.now(), path: uploaded.path, tone, length };
+    const { data: updated, error } = await updateResumeRecord(kv, resume.id, (current) => ({
+        coverLetters: [...(current.coverLetters || []), version],
+    }));
+    if (!updated) return { error: `Failed to store data. ${error}` };
+
+    return { data: updated };
+}
+
+export const readCoverLetter = async (fs: FileStorageService, version: CoverLetterVersion): Promise<ServiceResult<string>> => {
+    const { data, error } = await fs.read(version.path);
+    if (!data) return { error: error || 'Failed to read cover letter' };
+    return { data: await data.text() };
+}
+
+export const coverLetterFileName = (resume: Resume, format: CoverLetterFormat) =>
+    `${toFileSlug(resumeTitle(resume))}-cover-letter.${format}`;
+
+const paragraphs = (text: string) => text.split(/\n\s*\n/).map((paragraph) => paragraph.trim()).filter(Boolean);
+
+// Renders the letter in the requested format; the document libraries are loaded on demand
+export const exportCoverLetter = async (text: string, format: CoverLetterFormat): Promise<Blob> => {
+    if (format === 'txt') return new Blob([text], { type: 'text/plain' });
+
+    if (format === 'docx') {
+        const { Document, Packer, Paragraph, TextRun } = await import('docx');
+        const doc = new Document({
+            sections: [{
+                children: paragraphs(text).map((paragraph) => new Paragraph({
+                    spacing: { after: 240 },
+                    children: paragraph.split('\n').map((line, index) => new TextRun({ text: line, break: index ? 1 : 0 })),
+                })),
+            }],
+        });
+        return Packer.toBlob(doc);
+    }
+
+    const { jsPDF } = await import('jspdf');
+    const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+    const writer = createPdfWriter(doc);
+    for (const paragraph of paragraphs(text)) {
+        for (const line of paragraph.split('\n')) writer.text(line, { gap: 0 });
+        writer.space(12);
+    }
+    return doc.output('blob');
+}
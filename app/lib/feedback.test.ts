@@ -0,0 +1,117 @@
+import {describe, expect, it, vi} from "vitest";
+import type {AIService} from "~/lib/services";
+import {extractJson, parseFeedback, parseFeedbackWithRetry, parsePartialFeedback} from "~/lib/feedback";
+
+const section = (score: unknown) => ({
+    score,
+    tips: [{ type: 'good', tip: 'Clear headings', explanation: 'Easy to scan' }],
+});
+
+const feedbackJson = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+    overallScore: 72,
+    ATS: { score: 70, tips: [{ type: 'improve', tip: 'Add keywords' }] },
+    toneAndStyle: section(80),
+    content: section(65),
+    structure: section(75),
+    skills: section(60),
+    ...overrides,
+});
+
+const chatService = (reply: string | null): AIService => ({
+    supportsChat: true,
+    supportsFileParts: false,
+    chat: vi.fn(async () => reply === null
+        ? { error: 'Service unavailable' }
+        : { data: { message: { content: reply } } }),
+    feedback: vi.fn(),
+    img2txt: vi.fn(),
+});
+
+describe('extractJson', () => {
+    it('unwraps fenced JSON surrounded by prose', () => {
+        expect(extractJson('Here you go:\n```json\n{"a": 1}\n```\nThanks')).toBe('{"a": 1}');
+    });
+
+    it('returns null when there is no object', () => {
+        expect(extractJson('No analysis today')).toBeNull();
+    });
+});
+
+describe('parseFeedback', () => {
+    it('accepts numeric strings and clamps scores', () => {
+        const { feedback, errors } = parseFeedback(feedbackJson({ overallScore: '85/100', skills: section(140) }));
+
+        expect(errors).toEqual([]);
+        expect(feedback?.overallScore).toBe(85);
+        expect(feedback?.skills.score).toBe(100);
+    });
+
+    it('drops malformed tips and defaults their type to improve', () => {
+        const { feedback } = parseFeedback(feedbackJson({
+            content: { score: 60, tips: [{ tip: ' Quantify results ' }, { type: 'good' }, 'not a tip'] },
+        }));
+
+        expect(feedback?.content.tips).toEqual([{ type: 'improve', tip: 'Quantify results', explanation: '' }]);
+    });
+
+    it('reports every missing category', () => {
+        const { feedback, errors } = parseFeedback(JSON.stringify({ overallScore: 50, ATS: { score: 40, tips: [] } }));
+
+        expect(feedback).toBeNull();
+        expect(errors).toEqual(['toneAndStyle is missing', 'content is missing', 'structure is missing', 'skills is missing']);
+    });
+
+    it('reports invalid JSON', () => {
+        const { feedback, errors } = parseFeedback('{"overallScore": 50,}');
+
+        expect(feedback).toBeNull();
+        expect(errors[0]).toMatch(/^Invalid JSON/);
+    });
+});
+
+describe('parsePartialFeedback', () => {
+    it('only reports categories and scores that have fully arrived', () => {
+        const streamed = '{"overallScore": 8';
+        expect(parsePartialFeedback(streamed)).toEqual({});
+
+        const partial = parsePartialFeedback('{"overallScore": 85, "ATS": {"score": 70, "tips": []}, "content": {"score": 6');
+        expect(partial).toEqual({ overallScore: 85, ATS: { score: 70, tips: [] } });
+    });
+});
+
+describe('parseFeedbackWithRetry', () => {
+    it('does not re-prompt when the first response is valid', async () => {
+        const ai = chatService(null);
+
+        const { feedback } = await parseFeedbackWithRetry(ai, feedbackJson());
+
+        expect(feedback?.overallScore).toBe(72);
+        expect(ai.chat).not.toHaveBeenCalled();
+    });
+
+    it('re-prompts once with the problems and the same options', async () => {
+        const ai = chatService(feedbackJson());
+
+        const { feedback } = await parseFeedbackWithRetry(ai, '{"overallScore": 72}', { model: 'gpt-4o', temperature: 0.2 });
+
+        expect(feedback?.overallScore).toBe(72);
+        expect(ai.chat).toHaveBeenCalledTimes(1);
+        expect(ai.chat).toHaveBeenCalledWith(expect.stringContaining('- ATS is missing'), { model: 'gpt-4o', temperature: 0.2 });
+    });
+
+    it('keeps the first errors when the retry fails', async () => {
+        const { feedback, errors } = await parseFeedbackWithRetry(chatService(null), 'not json');
+
+        expect(feedback).toBeNull();
+        expect(errors).toEqual(['No JSON object found in the response', 'Retry failed: Service unavailable']);
+    });
+
+    it('skips the retry when the provider cannot chat', async () => {
+        const ai = { ...chatService(feedbackJson()), supportsChat: false };
+
+        const { feedback } = await parseFeedbackWithRetry(ai, 'not json');
+
+        expect(feedback).toBeNull();
+        expect(ai.chat).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,244 @@
+import type {AIChatOptions, AIResponse, AIService, ServiceResult} from "~/lib/services";
+import {AIResponseFormat, prepareInstructions} from "../../constants";
+import {type AnalysisSettings, DEFAULT_ANALYSIS_SETTINGS, getGenerationOptions} from "~/lib/settings";
+
+export const FEEDBACK_CATEGORIES = ['ATS', 'toneAndStyle', 'content', 'structure', 'skills'] as const;
+
+export type FeedbackCategory = typeof FEEDBACK_CATEGORIES[number];
+
+export const FEEDBACK_CATEGORY_LABELS: Record<FeedbackCategory, string> = {
+    ATS: 'ATS',
+    toneAndStyle: 'Tone & Style',
+    content: 'Content',
+    structure: 'Structure',
+    skills: 'Skills',
+};
+
+export interface FeedbackParseResult {
+    feedback: Feedback | null;
+    errors: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clampScore = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+// Accepts numbers and numeric strings such as "85" or "85/100"
+const toScore = (value: unknown): number | null => {
+    if (typeof value === 'number' && Number.isFinite(value)) return clampScore(value);
+    if (typeof value === 'string') {
+        const parsed = parseFloat(value);
+        if (Number.isFinite(parsed)) return clampScore(parsed);
+    }
+    return null;
+}
+
+export const getResponseText = (response: AIResponse): string => {
+    const content = response.message.content;
+    if (typeof content === 'string') return content;
+    return content.map((part) => part.text || '').join('');
+}
+
+// Pulls the JSON object out of model output that may be fenced or wrapped in prose
+export const extractJson = (text: string): string | null => {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const candidate = fenced ? fenced[1] : text;
+
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start === -1 || end <= start) return null;
+
+    return candidate.slice(start, end + 1);
+}
+
+const normalizeTips = (value: unknown, path: string, withExplanation: boolean, errors: string[]) => {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array`);
+        return [];
+    }
+
+    return value
+        .filter((tip) => isRecord(tip) && typeof tip.tip === 'string' && tip.tip.trim())
+        .map((tip) => ({
+            type: tip.type === 'good' ? 'good' as const : 'improve' as const,
+            tip: tip.tip.trim(),
+            ...(withExplanation ? { explanation: typeof tip.explanation === 'string' ? tip.explanation : '' } : {}),
+        }));
+}
+
+// Validates an already-parsed value against the Feedback shape, repairing what it safely can
+export const validateFeedback = (value: unknown): FeedbackParseResult => {
+    const errors: string[] = [];
+    if (!isRecord(value)) {
+        return { feedback: null, errors: ['Feedback must be a JSON object'] };
+    }
+
+    const overallScore = toScore(value.overallScore);
+    if (overallScore === null) errors.push('overallScore must be a number between 0 and 100');
+
+    const categories: Record<string, any> = {};
+    for (const category of FEEDBACK_CATEGORIES) {
+        const section = value[category];
+        if (!isRecord(section)) {
+            errors.push(`${category} is missing`);
+            continue;
+        }
+
+        const score = toScore(section.score);
+        if (score === null) errors.push(`${category}.score must be a number between 0 and 100`);
+
+        categories[category] = {
+            score: score ?? 0,
+            tips: normalizeTips(section.tips, `${category}.tips`, category !== 'ATS', errors),
+        };
+    }
+
+    if (errors.length) return { feedback: null, errors };
+
+    return {
+        feedback: { overallScore: overallScore ?? 0, ...categories } as Feedback,
+        errors: [],
+    };
+}
+
+export const parseFeedback = (text: string): FeedbackParseResult => {
+    const json = extractJson(text);
+    if (!json) {
+        return { feedback: null, errors: ['No JSON object found in the response'] };
+    }
+
+    try {
+        return validateFeedback(JSON.parse(json));
+    } catch (error) {
+        return {
+            feedback: null,
+            errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`],
+        };
+    }
+}
+
+// Returns the complete `{...}` value following "key": in a possibly unfinished JSON document
+const findObjectAfterKey = (text: string, key: string): string | null => {
+    const match = new RegExp(`"${key}"\\s*:\\s*\\{`).exec(text);
+    if (!match) return null;
+
+    const start = match.index + match[0].length - 1;
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{') {
+            depth++;
+        } else if (char === '}' && --depth === 0) {
+            return text.slice(start, i + 1);
+        }
+    }
+    return null;
+}
+
+// Picks out the categories that have fully arrived in a streamed response
+export const parsePartialFeedback = (text: string): Partial<Feedback> => {
+    const partial: Partial<Feedback> = {};
+
+    // Require a delimiter after the number so "8" is not reported while "85" is still arriving
+    const overall = text.match(/"overallScore"\s*:\s*"?(\d+(?:\.\d+)?)"?\s*[,}\n]/);
+    if (overall) partial.overallScore = clampScore(parseFloat(overall[1]));
+
+    for (const category of FEEDBACK_CATEGORIES) {
+        const json = findObjectAfterKey(text, category);
+        if (!json) continue;
+
+        try {
+            const section = JSON.parse(json);
+            const score = toScore(section.score);
+            if (score === null) continue;
+
+            (partial as Record<string, unknown>)[category] = {
+                score,
+                tips: normalizeTips(section.tips, `${category}.tips`, category !== 'ATS', []),
+            };
+        } catch {
+            // Not valid JSON yet; it will be picked up by a later chunk
+        }
+    }
+
+    return partial;
+}
+
+const prepareCorrectionPrompt = (text: string, errors: string[]) =>
+    `Your previous resume analysis could not be used because it did not match the required format.
+      The problems were:
+      ${errors.map((error) => `- ${error}`).join('\n      ')}
+      Your previous response was:
+      ${text}
+      Return the corrected analysis using the following format:
+      ${AIResponseFormat}
+      Return the analysis as an JSON object, without any other text and without the backticks.
+      Do not include any other text or comments.`;
+
+// Parses model output, sending one corrective re-prompt through ai.chat if it cannot be repaired
+// and the provider supports chat
+export const parseFeedbackWithRetry = async (
+    ai: AIService,
+    text: string,
+    options: AIChatOptions = {}
+): Promise<FeedbackParseResult> => {
+    const firstAttempt = parseFeedback(text);
+    if (firstAttempt.feedback || !ai.supportsChat) return firstAttempt;
+
+    console.warn('Feedback failed validation, re-prompting:', firstAttempt.errors);
+    const retry = await ai.chat(prepareCorrectionPrompt(text, firstAttempt.errors), options);
+    if (!retry.data) {
+        return {
+            feedback: null,
+            errors: [...firstAttempt.errors, `Retry failed: ${retry.error || 'no response'}`],
+        };
+    }
+
+    return parseFeedback(getResponseText(retry.data));
+}
+
+export interface FeedbackRequest {
+    analysisPath: string;
+    jobTitle: string;
+    jobDescription: string;
+    // Receives each category as soon as it has streamed in
+    onProgress?: (partial: Partial<Feedback>) => void;
+    settings?: AnalysisSettings;
+    rubric?: Rubric;
+}
+
+// Sends the stored resume to the AI and returns validated feedback
+export const requestFeedback = async (
+    ai: AIService,
+    { analysisPath, jobTitle, jobDescription, onProgress, settings = DEFAULT_ANALYSIS_SETTINGS, rubric }: FeedbackRequest
+): Promise<ServiceResult<Feedback>> => {
+    const instructions = prepareInstructions({ jobTitle, jobDescription, preset: settings.preset, rubric });
+
+    // The corrective retry runs on the same model and options as the analysis it repairs
+    const generation = getGenerationOptions(settings);
+
+    const result = await ai.feedback(analysisPath, instructions, {
+        ...generation,
+        jobTitle,
+        jobDescription,
+        onProgress: onProgress && ((text) => onProgress(parsePartialFeedback(text))),
+    });
+    if (!result.data) {
+        return { error: `Failed to analyze resume. ${result.error || ''}`.trim() };
+    }
+
+    const parsed = await parseFeedbackWithRetry(ai, getResponseText(result.data), generation);
+    if (!parsed.feedback) {
+        return { error: `Failed to parse feedback. ${parsed.errors.join('; ')}` };
+    }
+
+    return { data: parsed.feedback };
+}
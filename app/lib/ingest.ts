@@ -0,0 +1,170 @@
+import {canvasToFile, convertPdfToImage, extractPdfText, type PdfConversionResult, revokeResultUrls} from "~/lib/pdf2img";
+
+// Turns any supported resume file into extracted text plus preview images,
+// so the analysis pipeline does not need to know the original format.
+
+export const DOCUMENT_MIME_TYPES: Record<DocumentFormat, string> = {
+    pdf: 'application/pdf',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    text: 'text/plain',
+};
+
+// Accept map for react-dropzone
+export const ACCEPTED_DOCUMENT_TYPES: Record<string, string[]> = {
+    [DOCUMENT_MIME_TYPES.pdf]: ['.pdf'],
+    [DOCUMENT_MIME_TYPES.docx]: ['.docx'],
+    'text/plain': ['.txt'],
+    'text/markdown': ['.md', '.markdown'],
+};
+
+export interface IngestedDocument {
+    format: DocumentFormat;
+    text: string;
+    preview: PdfConversionResult;
+    // File handed to the AI: the original PDF, or the extracted text for other formats
+    analysisFile: File;
+    error?: string;
+}
+
+export const detectDocumentFormat = (file: Blob, name: string = file instanceof File ? file.name : ''): DocumentFormat | null => {
+    const lowerName = name.toLowerCase();
+
+    if (file.type.includes('pdf') || lowerName.endsWith('.pdf')) return 'pdf';
+    if (file.type === DOCUMENT_MIME_TYPES.docx || lowerName.endsWith('.docx')) return 'docx';
+    if (file.type.startsWith('text/') || /\.(txt|md|markdown)$/.test(lowerName)) return 'text';
+    return null;
+}
+
+const extractDocxText = async (file: Blob): Promise<string> => {
+    const mammoth = await import('mammoth');
+    const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+    return result.value;
+}
+
+export const extractDocumentText = async (file: Blob, name?: string): Promise<string> => {
+    // Blobs read back from storage may have lost their type, so assume PDF when unsure
+    const format = detectDocumentFormat(file, name) || 'pdf';
+
+    if (format === 'docx') return extractDocxText(file);
+    if (format === 'text') return file.text();
+    return extractPdfText(file);
+}
+
+// Letter-sized page at 2x scale, matching the PDF renderer
+const PAGE_WIDTH = 1224;
+const PAGE_HEIGHT = 1584;
+const PAGE_MARGIN = 96;
+const FONT_SIZE = 22;
+const LINE_HEIGHT = 32;
+
+const wrapLine = (context: CanvasRenderingContext2D, line: string, maxWidth: number): string[] => {
+    const words = line.split(/\s+/).filter(Boolean);
+    if (!words.length) return [''];
+
+    const wrapped: string[] = [];
+    let current = '';
+    for (const word of words) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (current && context.measureText(candidate).width > maxWidth) {
+            wrapped.push(current);
+            current = word;
+        } else {
+            current = candidate;
+        }
+    }
+    wrapped.push(current);
+    return wrapped;
+}
+
+// Renders plain text onto page-sized canvases so non-PDF resumes get a preview too
+const renderTextPreview = async (text: string, baseName: string): Promise<PdfConversionResult> => {
+    const measureCanvas = document.createElement('canvas');
+    const measureContext = measureCanvas.getContext('2d');
+    if (!measureContext) {
+        return { imageUrl: '', file: null, error: 'Failed to get canvas 2D context' };
+    }
+    measureContext.font = `${FONT_SIZE}px sans-serif`;
+
+    const lines = text
+        .split('\n')
+        .map((line) => line.replace(/^#+\s*/, '').replace(/\*\*|__/g, ''))
+        .flatMap((line) => wrapLine(measureContext, line, PAGE_WIDTH - PAGE_MARGIN * 2));
+
+    const linesPerPage = Math.floor((PAGE_HEIGHT - PAGE_MARGIN * 2) / LINE_HEIGHT);
+    const pageCount = Math.max(1, Math.ceil(lines.length / linesPerPage));
+
+    const pages = [];
+    for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+        const canvas = document.createElement('canvas');
+        canvas.width = PAGE_WIDTH;
+        canvas.height = PAGE_HEIGHT;
+        const context = canvas.getContext('2d');
+        if (!context) {
+            return { imageUrl: '', file: null, error: 'Failed to get canvas 2D context' };
+        }
+
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+        context.fillStyle = '#111827';
+        context.font = `${FONT_SIZE}px sans-serif`;
+        context.textBaseline = 'top';
+
+        lines
+            .slice(pageIndex * linesPerPage, (pageIndex + 1) * linesPerPage)
+            .forEach((line, index) => context.fillText(line, PAGE_MARGIN, PAGE_MARGIN + index * LINE_HEIGHT));
+
+        const suffix = pageCount > 1 ? `-page-${pageIndex + 1}` : '';
+        const file = await canvasToFile(canvas, `${baseName}${suffix}.png`);
+        pages.push({ imageUrl: URL.createObjectURL(file), file });
+    }
+
+    return { imageUrl: pages[0].imageUrl, file: pages[0].file, pages, pageCount };
+}
+
+// PDF previews live in the render cache, which revokes their object URLs itself. Text previews
+// are rendered fresh each time, so their URLs are revoked once the caller has what it needs.
+export const releaseIngestedDocument = (document: IngestedDocument) => {
+    if (document.format !== 'pdf') revokeResultUrls(document.preview);
+}
+
+export async function ingestDocument(file: File): Promise<IngestedDocument> {
+    const format = detectDocumentFormat(file);
+    const emptyPreview: PdfConversionResult = { imageUrl: '', file: null };
+
+    if (!format) {
+        return {
+            format: 'pdf',
+            text: '',
+            preview: emptyPreview,
+            analysisFile: file,
+            error: 'Unsupported file type. Please upload a PDF, DOCX, TXT or MD file.',
+        };
+    }
+
+    try {
+        if (format === 'pdf') {
+            const preview = await convertPdfToImage(file, { allPages: true });
+            const text = preview.file ? await extractPdfText(file) : '';
+            return { format, text, preview, analysisFile: file, error: preview.error };
+        }
+
+        const text = await extractDocumentText(file);
+        if (!text.trim()) {
+            return { format, text, preview: emptyPreview, analysisFile: file, error: 'No text could be extracted from the file' };
+        }
+
+        const baseName = file.name.replace(/\.[^.]+$/, '');
+        const preview = await renderTextPreview(text, baseName);
+        const analysisFile = new File([text], `${baseName}.txt`, { type: DOCUMENT_MIME_TYPES.text });
+        return { format, text, preview, analysisFile, error: preview.error };
+    } catch (error) {
+        console.error('Document ingestion error:', error);
+        return {
+            format,
+            text: '',
+            preview: emptyPreview,
+            analysisFile: file,
+            error: `Failed to read document: ${error instanceof Error ? error.message : String(error)}`,
+        };
+    }
+}
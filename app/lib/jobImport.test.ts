@@ -0,0 +1,97 @@
+import {describe, expect, it, vi} from "vitest";
+import {importJobPosting, type JobPostingFetcher, parseJobPosting} from "~/lib/jobImport";
+
+const description = 'Build and run the services behind our checkout. '.repeat(6);
+
+const structuredPage = `<html><head>
+<title>Careers</title>
+<script type="application/ld+json">${JSON.stringify({
+    '@graph': [
+        { '@type': 'Organization', name: 'Ignored' },
+        {
+            '@type': 'JobPosting',
+            title: 'Backend Engineer',
+            hiringOrganization: { name: 'Acme' },
+            description: '<p>Build services.</p><ul><li>Go</li><li>PostgreSQL</li></ul>',
+        },
+    ],
+})}</script>
+</head><body><h1>Careers at Acme</h1></body></html>`;
+
+const plainPage = `<html><head><title>Staff Designer at Globex | JobBoard</title></head><body>
+<nav>Home Jobs About</nav>
+<div class="cookie-banner">We use cookies</div>
+<main><div class="job-description"><h2>About the role</h2><p>${description}</p></div></main>
+<footer>Copyright</footer>
+</body></html>`;
+
+describe('parseJobPosting', () => {
+    it('prefers JobPosting structured data', () => {
+        expect(parseJobPosting(structuredPage)).toEqual({
+            title: 'Backend Engineer',
+            company: 'Acme',
+            description: 'Build services.\n\n- Go\n\n- PostgreSQL',
+        });
+    });
+
+    it('falls back to the page title and the description container', () => {
+        const job = parseJobPosting(plainPage);
+
+        expect(job.title).toBe('Staff Designer');
+        expect(job.company).toBe('Globex');
+        expect(job.description).toBe(`About the role\n\n${description.trim()}`);
+    });
+
+    it('uses pasted plain text as the description', () => {
+        expect(parseJobPosting('Senior role\n\n\n\nRemote')).toEqual({ title: '', company: '', description: 'Senior role\n\nRemote' });
+    });
+});
+
+describe('importJobPosting', () => {
+    const stub = (result: Awaited<ReturnType<JobPostingFetcher>>) => vi.fn<JobPostingFetcher>(async () => result);
+
+    it('rejects links without a protocol before fetching', async () => {
+        const fetcher = stub({ data: structuredPage });
+
+        const { error } = await importJobPosting('example.com/jobs/1', { fetcher });
+
+        expect(error).toMatch(/http/);
+        expect(fetcher).not.toHaveBeenCalled();
+    });
+
+    it('parses the page the fetcher returns', async () => {
+        const fetcher = stub({ data: structuredPage });
+
+        const { data } = await importJobPosting(' https://example.com/jobs/1 ', { fetcher });
+
+        expect(data?.title).toBe('Backend Engineer');
+        expect(fetcher).toHaveBeenCalledWith('https://example.com/jobs/1', { signal: expect.any(AbortSignal) });
+    });
+
+    it('passes fetch errors through', async () => {
+        const { error, errorKind } = await importJobPosting('https://example.com', {
+            fetcher: stub({ error: 'The job posting could not be loaded (status 404)', errorKind: 'network' }),
+        });
+
+        expect(error).toBe('The job posting could not be loaded (status 404)');
+        expect(errorKind).toBe('network');
+    });
+
+    it('reports pages without a description', async () => {
+        const { errorKind } = await importJobPosting('https://example.com', { fetcher: stub({ data: '<html><body></body></html>' }) });
+
+        expect(errorKind).toBe('parse');
+    });
+
+    it('stops when the caller cancels', async () => {
+        const controller = new AbortController();
+        const fetcher = vi.fn<JobPostingFetcher>((_url, { signal } = {}) => new Promise((resolve) => {
+            signal?.addEventListener('abort', () => resolve({ error: 'Import was cancelled', errorKind: 'cancelled' }));
+        }));
+
+        const pending = importJobPosting('https://example.com', { fetcher, signal: controller.signal });
+        controller.abort();
+
+        expect((await pending).errorKind).toBe('cancelled');
+    });
+});
@@ -0,0 +1,184 @@
+import type {ServiceResult} from "~/lib/services";
+import {runServiceOperation} from "~/lib/operation";
+
+// Fills the upload form from a job posting, given its URL or the page's HTML
+
+export interface ImportedJob {
+    title: string;
+    company: string;
+    description: string;
+}
+
+// Returns the HTML of a posting; swap it out to go through a server or to stub the network
+export type JobPostingFetcher = (url: string, options?: { signal?: AbortSignal }) => Promise<ServiceResult<string>>;
+
+// Job boards and proxies sometimes accept the connection and never answer
+const IMPORT_TIMEOUT_MS = 20000;
+
+// Job boards rarely allow cross-origin requests, so a CORS proxy can be set with
+// VITE_JOB_FETCH_PROXY; the encoded posting URL is appended to it
+export const fetchJobPosting: JobPostingFetcher = async (url, { signal } = {}) => {
+    const proxy = import.meta.env.VITE_JOB_FETCH_PROXY as string | undefined;
+
+    try {
+        const response = await fetch(proxy ? `${proxy}${encodeURIComponent(url)}` : url, { signal });
+        if (!response.ok) {
+            return { error: `The job posting could not be loaded (status ${response.status})`, errorKind: 'network' };
+        }
+        return { data: await response.text() };
+    } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') {
+            return { error: 'Import was cancelled', errorKind: 'cancelled' };
+        }
+        // Usually a CORS rejection, which the browser does not let us tell apart from a network error
+        return { error: 'The job board blocked the request. Paste the page HTML instead.', errorKind: 'network' };
+    }
+}
+
+// Elements that never hold the posting itself
+const BOILERPLATE_SELECTOR = [
+    'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form', 'button',
+    'nav', 'header', 'footer', 'aside',
+    '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[aria-hidden="true"]',
+].join(',');
+
+const BOILERPLATE_NAME = /(cookie|consent|banner|navbar|menu|breadcrumb|footer|header|sidebar|share|social|subscribe|newsletter|related|similar|recommend|signup|login|modal|popup)/i;
+
+// Likely containers of the description, best first
+const DESCRIPTION_SELECTORS = [
+    '[class*="job-description" i]', '[id*="job-description" i]', '[class*="jobdescription" i]',
+    '[class*="description" i]', '[id*="description" i]', '[class*="posting" i]',
+    'article', 'main', '[role="main"]',
+];
+
+const BLOCK_TAGS = new Set([
+    'P', 'DIV', 'SECTION', 'ARTICLE', 'MAIN', 'UL', 'OL', 'LI', 'BR', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6',
+    'TABLE', 'TR', 'BLOCKQUOTE', 'PRE', 'HR', 'DL', 'DT', 'DD',
+]);
+
+// Plain text with paragraphs, headings and list items kept on their own lines
+const htmlToText = (root: Node): string => {
+    const parts: string[] = [];
+
+    const walk = (node: Node) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            parts.push((node.textContent || '').replace(/\s+/g, ' '));
+            return;
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+        const tag = (node as Element).tagName;
+        const isBlock = BLOCK_TAGS.has(tag);
+        if (isBlock) parts.push('\n');
+        if (tag === 'LI') parts.push('- ');
+        node.childNodes.forEach(walk);
+        if (isBlock) parts.push('\n');
+    }
+
+    walk(root);
+
+    return parts.join('')
+        .split('\n')
+        .map((line) => line.trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+const parseHtml = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+const textFromHtml = (html: string) => htmlToText(parseHtml(html).body);
+
+const findJobPostingData = (doc: Document): Record<string, any> | null => {
+    for (const script of doc.querySelectorAll('script[type="application/ld+json"]')) {
+        try {
+            const data = JSON.parse(script.textContent || '');
+            const items: any[] = Array.isArray(data) ? data : data['@graph'] || [data];
+            const posting = items.find((item) => [item?.['@type']].flat().includes('JobPosting'));
+            if (posting) return posting;
+        } catch {
+            // Malformed structured data is common; fall back to reading the page
+        }
+    }
+    return null;
+}
+
+const meta = (doc: Document, name: string) =>
+    doc.querySelector(`meta[property="${name}"], meta[name="${name}"]`)?.getAttribute('content')?.trim() || '';
+
+// Page titles usually read "Title at Company", "Title - Company | Board" or "Company hiring Title"
+const splitPageTitle = (pageTitle: string): { title: string, company: string } => {
+    const withoutBoard = pageTitle.split(/\s+[|·]\s+/)[0].trim();
+
+    const hiring = withoutBoard.match(/^(.+?)\s+(?:is\s+)?hiring\s+(?:an?\s+)?(.+?)(?:\s+in\s+.+)?$/i);
+    if (hiring) return { company: hiring[1], title: hiring[2] };
+
+    const at = withoutBoard.match(/^(.+?)\s+at\s+(.+)$/i);
+    if (at) return { title: at[1], company: at[2] };
+
+    const [title, company = ''] = withoutBoard.split(/\s+[-–—]\s+/);
+    return { title, company };
+}
+
+const pickDescriptionElement = (doc: Document): Element => {
+    doc.querySelectorAll(BOILERPLATE_SELECTOR).forEach((element) => element.remove());
+    doc.querySelectorAll('[class], [id]').forEach((element) => {
+        const name = `${element.getAttribute('class') || ''} ${element.getAttribute('id') || ''}`;
+        // Only strip small boilerplate blocks, not wrappers that happen to share a class name
+        if (BOILERPLATE_NAME.test(name) && (element.textContent || '').length < 2000) element.remove();
+    });
+
+    for (const selector of DESCRIPTION_SELECTORS) {
+        const candidates = [...doc.querySelectorAll(selector)];
+        const best = candidates.sort((a, b) => (b.textContent || '').length - (a.textContent || '').length)[0];
+        if (best && (best.textContent || '').trim().length > 200) return best;
+    }
+    return doc.body;
+}
+
+const looksLikeHtml = (value: string) => /<(html|body|div|p|ul|li|h[1-6]|section|article|script|meta)\b/i.test(value);
+
+export const parseJobPosting = (html: string): ImportedJob => {
+    // Plain text pasted into the HTML box is used as the description as-is
+    if (!looksLikeHtml(html)) {
+        return { title: '', company: '', description: html.replace(/\n{3,}/g, '\n\n').trim() };
+    }
+
+    const doc = parseHtml(html);
+    const posting = findJobPostingData(doc);
+    const fromPageTitle = splitPageTitle(meta(doc, 'og:title') || doc.title || '');
+
+    const title = (posting?.title || doc.querySelector('h1')?.textContent || fromPageTitle.title || '').trim();
+    const company = (
+        (typeof posting?.hiringOrganization === 'string' ? posting.hiringOrganization : posting?.hiringOrganization?.name)
+        || fromPageTitle.company
+        || meta(doc, 'og:site_name')
+        || ''
+    ).trim();
+    const description = typeof posting?.description === 'string'
+        ? textFromHtml(posting.description)
+        : htmlToText(pickDescriptionElement(doc));
+
+    return { title, company, description };
+}
+
+export const importJobPosting = async (
+    url: string,
+    { fetcher = fetchJobPosting, signal }: { fetcher?: JobPostingFetcher, signal?: AbortSignal } = {}
+): Promise<ServiceResult<ImportedJob>> => {
+    if (!/^https?:\/\//i.test(url.trim())) {
+        return { error: 'Enter a full link starting with http:// or https://' };
+    }
+
+    const { data: html, error, errorKind } = await runServiceOperation(
+        (attemptSignal) => fetcher(url.trim(), { signal: attemptSignal }),
+        { label: 'Job import', timeoutMs: IMPORT_TIMEOUT_MS, signal }
+    );
+    if (!html) return { error: error || 'The job posting was empty', errorKind };
+
+    const job = parseJobPosting(html);
+    if (!job.description) {
+        return { error: 'No job description was found on that page. Paste the page HTML instead.', errorKind: 'parse' };
+    }
+    return { data: job };
+}
@@ -0,0 +1,241 @@
+import type {AIService, FileStorageService, KVService, ServiceErrorKind, ServiceResult} from "~/lib/services";
+
+// One runner for every slow call in the app: a per-operation timeout whose timer is always
+// cleared, cancellation through an AbortSignal, exponential backoff for transient failures
+// and a classified error so callers can tell a timeout from an expired session.
+
+export interface OperationOptions {
+    // Used in error messages, e.g. "File upload timed out after 60 seconds"
+    label?: string;
+    // 0 disables the timeout
+    timeoutMs?: number;
+    // Extra attempts after the first one; only transient errors are retried
+    retries?: number;
+    // Delay before the first retry, doubled for each one after it
+    backoffMs?: number;
+    signal?: AbortSignal;
+}
+
+export class OperationError extends Error {
+    constructor(message: string, readonly kind: ServiceErrorKind) {
+        super(message);
+        this.name = 'OperationError';
+    }
+}
+
+const TRANSIENT_ERRORS: ServiceErrorKind[] = ['timeout', 'network'];
+
+export const isTransientError = (kind: ServiceErrorKind) => TRANSIENT_ERRORS.includes(kind);
+
+export const classifyError = (error: unknown): ServiceErrorKind => {
+    if (error instanceof OperationError) return error.kind;
+    if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled';
+    if (error instanceof SyntaxError) return 'parse';
+
+    const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+    if (/timed? ?out|timeout/.test(message)) return 'timeout';
+    if (/cancel|abort/.test(message)) return 'cancelled';
+    if (/\b40[13]\b|unauthori[sz]ed|forbidden|not signed in|sign in|auth|api key|permission/.test(message)) return 'auth';
+    if (/\b429\b|quota|rate limit|too many requests|insufficient (funds|credits?)|usage limit/.test(message)) return 'quota';
+    if (/json|parse|unexpected token|invalid format/.test(message)) return 'parse';
+    if (/network|failed to fetch|fetch failed|connection|offline|\b50[234]\b|unavailable/.test(message)) return 'network';
+    return 'unknown';
+}
+
+const toOperationError = (error: unknown): OperationError =>
+    error instanceof OperationError
+        ? error
+        : new OperationError(error instanceof Error ? error.message : String(error), classifyError(error));
+
+const cancelledError = (label: string) => new OperationError(`${label} was cancelled`, 'cancelled');
+
+const sleep = (ms: number, signal: AbortSignal | undefined, label: string) =>
+    new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            reject(cancelledError(label));
+        };
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+// A single attempt; settles on the first of completion, timeout or cancellation
+const attempt = <T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    label: string,
+    timeoutMs: number,
+    signal?: AbortSignal
+): Promise<T> => {
+    if (signal?.aborted) return Promise.reject(cancelledError(label));
+
+    const controller = new AbortController();
+
+    return new Promise<T>((resolve, reject) => {
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+        const cleanup = () => {
+            clearTimeout(timeoutId);
+            signal?.removeEventListener('abort', onAbort);
+        };
+        const fail = (error: OperationError) => {
+            cleanup();
+            controller.abort(error);
+            reject(error);
+        };
+        const onAbort = () => fail(cancelledError(label));
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+        if (timeoutMs > 0) {
+            timeoutId = setTimeout(
+                () => fail(new OperationError(`${label} timed out after ${timeoutMs / 1000} seconds`, 'timeout')),
+                timeoutMs
+            );
+        }
+
+        operation(controller.signal).then(
+            (value) => {
+                cleanup();
+                resolve(value);
+            },
+            (error) => {
+                cleanup();
+                reject(toOperationError(error));
+            }
+        );
+    });
+}
+
+// Runs an operation that throws on failure; rejects with an OperationError
+export const runOperation = async <T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    { label = 'Operation', timeoutMs = 30000, retries = 0, backoffMs = 1000, signal }: OperationOptions = {}
+): Promise<T> => {
+    for (let attemptIndex = 0; ; attemptIndex++) {
+        try {
+            return await attempt(operation, label, timeoutMs, signal);
+        } catch (error) {
+            const operationError = toOperationError(error);
+            if (attemptIndex >= retries || !isTransientError(operationError.kind) || signal?.aborted) {
+                throw operationError;
+            }
+
+            const delay = backoffMs * 2 ** attemptIndex;
+            console.warn(`${label} failed (${operationError.kind}), retrying in ${delay}ms:`, operationError.message);
+            await sleep(delay, signal, label);
+        }
+    }
+}
+
+// Runs a service call, treating an `error` result like a thrown error so it can be retried
+export const runServiceOperation = async <T>(
+    operation: (signal: AbortSignal) => Promise<ServiceResult<T>>,
+    options: OperationOptions = {}
+): Promise<ServiceResult<T>> => {
+    try {
+        return await runOperation(async (signal) => {
+            const result = await operation(signal);
+            if (result.error) {
+                throw new OperationError(result.error, result.errorKind || classifyError(result.error));
+            }
+            return result;
+        }, options);
+    } catch (error) {
+        const operationError = toOperationError(error);
+        return { error: operationError.message, errorKind: operationError.kind };
+    }
+}
+
+type OperationDefaults = Pick<OperationOptions, 'label' | 'timeoutMs' | 'retries'>;
+
+// Per-operation timeouts and retry counts for the service layer
+export const OPERATION_DEFAULTS = {
+    fs: {
+        // Not retried: an upload that timed out may still have finished, and a retry would duplicate the file
+        upload: { label: 'File upload', timeoutMs: 60000, retries: 0 },
+        read: { label: 'File read', timeoutMs: 30000, retries: 2 },
+        write: { label: 'File write', timeoutMs: 60000, retries: 0 },
+        delete: { label: 'File delete', timeoutMs: 30000, retries: 1 },
+        list: { label: 'File listing', timeoutMs: 30000, retries: 2 },
+    },
+    kv: {
+        get: { label: 'Key-value store get operation', timeoutMs: 30000, retries: 2 },
+        // Not retried: a set that timed out may still have been stored, and a retry would replay it
+        set: { label: 'Key-value store set operation', timeoutMs: 60000, retries: 0 },
+        delete: { label: 'Key-value store delete operation', timeoutMs: 30000, retries: 1 },
+        list: { label: 'Key-value store list operation', timeoutMs: 30000, retries: 2 },
+        listValues: { label: 'Key-value store list operation', timeoutMs: 30000, retries: 2 },
+        flush: { label: 'Key-value store flush operation', timeoutMs: 60000, retries: 0 },
+    },
+    ai: {
+        chat: { label: 'AI chat', timeoutMs: 60000, retries: 1 },
+        feedback: { label: 'AI feedback operation', timeoutMs: 120000, retries: 1 },
+        img2txt: { label: 'Image-to-text operation', timeoutMs: 60000, retries: 1 },
+    },
+} satisfies {
+    fs: Record<keyof FileStorageService, OperationDefaults>;
+    kv: Record<keyof KVService, OperationDefaults>;
+    ai: Record<Exclude<keyof AIService, 'defaultModel' | 'supportsChat' | 'supportsFileParts'>, OperationDefaults>;
+};
+
+export interface OperationServices {
+    fs: FileStorageService;
+    kv: KVService;
+    ai: AIService;
+}
+
+const RAW_SERVICES = Symbol('rawServices');
+
+// Aborts when any of the given signals does
+const combineSignals = (...signals: (AbortSignal | undefined)[]): AbortSignal | undefined => {
+    const present = signals.filter((signal): signal is AbortSignal => !!signal);
+    return present.length > 1 ? AbortSignal.any(present) : present[0];
+}
+
+type WrappedServices = OperationServices & { [RAW_SERVICES]?: OperationServices };
+
+// Routes every fs/kv/ai call through runServiceOperation. Wrapping already-wrapped services
+// replaces the previous options instead of nesting runners, so a caller can add its own signal.
+export const withOperations = (services: OperationServices, { signal }: { signal?: AbortSignal } = {}): OperationServices => {
+    const { fs, kv, ai } = (services as WrappedServices)[RAW_SERVICES] || services;
+    const defaults = OPERATION_DEFAULTS;
+
+    const wrapped: WrappedServices = {
+        fs: {
+            upload: (files) => runServiceOperation(() => fs.upload(files), { ...defaults.fs.upload, signal }),
+            read: (path) => runServiceOperation(() => fs.read(path), { ...defaults.fs.read, signal }),
+            write: (path, data) => runServiceOperation(() => fs.write(path, data), { ...defaults.fs.write, signal }),
+            delete: (path) => runServiceOperation(() => fs.delete(path), { ...defaults.fs.delete, signal }),
+            list: (path) => runServiceOperation(() => fs.list(path), { ...defaults.fs.list, signal }),
+        },
+        kv: {
+            get: (key) => runServiceOperation(() => kv.get(key), { ...defaults.kv.get, signal }),
+            set: (key, value) => runServiceOperation(() => kv.set(key, value), { ...defaults.kv.set, signal }),
+            delete: (key) => runServiceOperation(() => kv.delete(key), { ...defaults.kv.delete, signal }),
+            list: (pattern) => runServiceOperation(() => kv.list(pattern), { ...defaults.kv.list, signal }),
+            listValues: (pattern) =>
+                runServiceOperation(() => kv.listValues(pattern), { ...defaults.kv.listValues, signal }),
+            flush: () => runServiceOperation(() => kv.flush(), { ...defaults.kv.flush, signal }),
+        },
+        ai: {
+            defaultModel: ai.defaultModel,
+            supportsChat: ai.supportsChat,
+            supportsFileParts: ai.supportsFileParts,
+            // A signal passed with the request cancels it just like the one given to withOperations
+            chat: (prompt, options) => runServiceOperation(
+                (attemptSignal) => ai.chat(prompt, { ...options, signal: attemptSignal }),
+                { ...defaults.ai.chat, signal: combineSignals(signal, options?.signal) }
+            ),
+            feedback: (file, message, options) => runServiceOperation(
+                (attemptSignal) => ai.feedback(file, message, { ...options, signal: attemptSignal }),
+                { ...defaults.ai.feedback, signal: combineSignals(signal, options?.signal) }
+            ),
+            img2txt: (image) => runServiceOperation(() => ai.img2txt(image), { ...defaults.ai.img2txt, signal }),
+        },
+    };
+
+    wrapped[RAW_SERVICES] = { fs, kv, ai };
+    return wrapped;
+}
@@ -1,11 +1,40 @@
+import {runOperation} from "~/lib/operation";
+
 export interface PdfConversionResult {
+    // Object URL of the first (or stitched) image; revoked once the result drops out of the cache
     imageUrl: string;
     file: File | null;
+    // Every rendered page, in order (only the first page unless allPages or stitch is set)
+    pages?: PdfPageImage[];
+    pageCount?: number;
     error?: string;
 }
 
-// Simple in-memory cache for processed PDFs
+// Simple in-memory cache for processed PDFs, oldest entry first
 const pdfCache: Map<string, PdfConversionResult> = new Map();
+const MAX_CACHED_PDFS = 5;
+
+// Object URLs keep their blobs alive until revoked, so an entry's URLs go when the entry does.
+// Results that are not cached are revoked by whoever created them.
+export const revokeResultUrls = (result: PdfConversionResult) => {
+    const urls = new Set([result.imageUrl, ...(result.pages || []).map((page) => page.imageUrl)]);
+    urls.forEach((url) => url && URL.revokeObjectURL(url));
+}
+
+const cacheResult = (cacheKey: string, result: PdfConversionResult) => {
+    const replaced = pdfCache.get(cacheKey);
+    if (replaced) {
+        pdfCache.delete(cacheKey);
+        revokeResultUrls(replaced);
+    }
+    pdfCache.set(cacheKey, result);
+
+    for (const [key, entry] of pdfCache) {
+        if (pdfCache.size <= MAX_CACHED_PDFS) break;
+        pdfCache.delete(key);
+        revokeResultUrls(entry);
+    }
+}
 
 // Check if we're in development mode
 const isDevelopment = process.env.NODE_ENV === 'development';
@@ -44,18 +73,11 @@ async function loadPdfJs(): Promise<any> {
             // We'll continue and let the PDF.js library try to load it anyway
         }
 
-        // Create a promise that rejects after a timeout
-        const libraryTimeoutPromise = new Promise((_, reject) => {
-            setTimeout(() => {
-                reject(new Error("PDF.js library loading timed out after 30 seconds"));
-            }, 30000); // 30 seconds timeout
-        });
-
-        // @ts-expect-error - pdfjs-dist/build/pdf.mjs is not a module
-        loadPromise = Promise.race([
-            import("pdfjs-dist/build/pdf.mjs"),
-            libraryTimeoutPromise
-        ]).then((lib) => {
+        loadPromise = runOperation(
+            // @ts-expect-error - pdfjs-dist/build/pdf.mjs is not a module
+            () => import("pdfjs-dist/build/pdf.mjs"),
+            { label: "PDF.js library loading", timeoutMs: 30000 }
+        ).then((lib: any) => {
             try {
                 // Set the worker source to use local file with multiple fallback options
                 log("Setting PDF.js worker source to:", workerSrc);
@@ -92,8 +114,145 @@ async function loadPdfJs(): Promise<any> {
     return loadPromise;
 }
 
+export interface PdfConversionOptions {
+    // Render every page instead of only the first one
+    allPages?: boolean;
+    // Combine the rendered pages into one tall image returned as `file`
+    stitch?: boolean;
+}
+
+export interface PdfPageImage {
+    imageUrl: string;
+    file: File;
+}
+
+async function renderPage(pdf: any, pageNumber: number): Promise<HTMLCanvasElement> {
+    log(`Getting page ${pageNumber}...`);
+
+    const page = await runOperation(
+        () => pdf.getPage(pageNumber),
+        { label: "PDF page retrieval", timeoutMs: 30000 }
+    ) as any;
+
+    // Reduced scale factor from 4 to 2 for better performance while maintaining readability
+    const viewport = page.getViewport({ scale: 2 });
+    log("Viewport created with dimensions:", viewport.width, "x", viewport.height);
+
+    const canvas = document.createElement("canvas");
+    const context = canvas.getContext("2d");
+
+    if (!context) {
+        console.error("Failed to get canvas 2D context");
+        throw new Error("Failed to get canvas 2D context");
+    }
+
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+
+    context.imageSmoothingEnabled = true;
+    // Changed from "high" to "medium" for better performance
+    context.imageSmoothingQuality = "medium";
+
+    log(`Rendering PDF page ${pageNumber} to canvas...`);
+    try {
+        await runOperation(
+            () => page.render({ canvasContext: context, viewport }).promise,
+            { label: "PDF page rendering", timeoutMs: 30000 }
+        );
+
+        log(`PDF page ${pageNumber} rendered successfully`);
+    } catch (renderError) {
+        console.error("PDF rendering error:", renderError);
+        throw new Error(`Failed to render PDF: ${renderError instanceof Error ? renderError.message : String(renderError)}`);
+    }
+
+    return canvas;
+}
+
+// Draws the page canvases one below the other on a single canvas
+function stitchCanvases(canvases: HTMLCanvasElement[]): HTMLCanvasElement {
+    const stitched = document.createElement("canvas");
+    stitched.width = Math.max(...canvases.map((canvas) => canvas.width));
+    stitched.height = canvases.reduce((height, canvas) => height + canvas.height, 0);
+
+    const context = stitched.getContext("2d");
+    if (!context) {
+        throw new Error("Failed to get canvas 2D context");
+    }
+
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, stitched.width, stitched.height);
+
+    let offsetY = 0;
+    for (const canvas of canvases) {
+        context.drawImage(canvas, 0, offsetY);
+        offsetY += canvas.height;
+    }
+
+    return stitched;
+}
+
+function dataUrlToBlob(dataUrl: string): Blob {
+    const byteString = atob(dataUrl.split(',')[1]);
+    const mimeString = dataUrl.split(',')[0].split(':')[1].split(';')[0];
+    const ab = new ArrayBuffer(byteString.length);
+    const ia = new Uint8Array(ab);
+
+    for (let i = 0; i < byteString.length; i++) {
+        ia[i] = byteString.charCodeAt(i);
+    }
+
+    return new Blob([ab], {type: mimeString});
+}
+
+// Converts a canvas to a PNG file, falling back to toDataURL when toBlob fails
+export function canvasToFile(canvas: HTMLCanvasElement, fileName: string): Promise<File> {
+    log("Converting canvas to image blob...");
+    const toFile = (blob: Blob) => new File([blob], fileName, { type: "image/png" });
+
+    const tryWithDataURL = () => {
+        try {
+            log("Attempting to use toDataURL as fallback...");
+            const blob = dataUrlToBlob(canvas.toDataURL('image/png'));
+            log("Successfully created blob from dataURL");
+            return toFile(blob);
+        } catch (dataUrlError) {
+            console.error("Error using toDataURL fallback:", dataUrlError);
+            throw new Error(`Failed to create image using toDataURL: ${dataUrlError instanceof Error ? dataUrlError.message : String(dataUrlError)}`);
+        }
+    };
+
+    return runOperation(() => new Promise<File>((resolve, reject) => {
+        try {
+            // First try with toBlob
+            canvas.toBlob(
+                (blob) => {
+                    if (blob) {
+                        log("Successfully created blob, size:", blob.size);
+                        resolve(toFile(blob));
+                    } else {
+                        console.error("Blob is null, trying dataURL fallback");
+                        try {
+                            resolve(tryWithDataURL());
+                        } catch (error) {
+                            reject(error);
+                        }
+                    }
+                },
+                "image/png",
+                0.8
+            ); // Reduced quality from 1.0 to 0.8 for better performance
+        } catch (blobError) {
+            console.error("Error calling toBlob:", blobError);
+            // Try with dataURL as fallback
+            resolve(tryWithDataURL());
+        }
+    }), { label: "Creating image blob", timeoutMs: 30000 });
+}
+
 export async function convertPdfToImage(
-    file: File
+    file: File,
+    options: PdfConversionOptions = {}
 ): Promise<PdfConversionResult> {
     try {
         log("Starting PDF to image conversion for file:", file.name);
@@ -118,8 +277,8 @@ export async function convertPdfToImage(
             };
         }
 
-        // Generate a cache key based on file name and last modified date
-        const cacheKey = `${file.name}-${file.lastModified}`;
+        // Generate a cache key based on file name, last modified date and render options
+        const cacheKey = `${file.name}-${file.lastModified}-${options.allPages ? 'all' : 'first'}-${options.stitch ? 'stitched' : 'pages'}`;
 
         // Check if we have this PDF in cache
         if (pdfCache.has(cacheKey)) {
@@ -133,194 +292,54 @@ export async function convertPdfToImage(
 
         log("Reading file data...");
 
-        // Create a promise that rejects after a timeout
-        const arrayBufferTimeoutPromise = new Promise((_, reject) => {
-            setTimeout(() => {
-                reject(new Error("File reading timed out after 30 seconds"));
-            }, 30000); // 30 seconds timeout
-        });
-
-        // Race the file reading against the timeout
-        const arrayBuffer = await Promise.race([
-            file.arrayBuffer(),
-            arrayBufferTimeoutPromise
-        ]) as ArrayBuffer;
+        const arrayBuffer = await runOperation(
+            () => file.arrayBuffer(),
+            { label: "File reading", timeoutMs: 30000 }
+        );
 
         log("File data read successfully, size:", arrayBuffer.byteLength);
 
         log("Loading PDF document...");
 
-        // Create a promise that rejects after a timeout
-        const timeoutPromise = new Promise((_, reject) => {
-            setTimeout(() => {
-                reject(new Error("PDF document loading timed out after 60 seconds"));
-            }, 60000); // 60 seconds timeout
-        });
-
-        // Race the document loading against the timeout
-        const pdf = await Promise.race([
-            lib.getDocument({ data: arrayBuffer }).promise,
-            timeoutPromise
-        ]) as any;
+        const pdf = await runOperation(
+            () => lib.getDocument({ data: arrayBuffer }).promise,
+            { label: "PDF document loading", timeoutMs: 60000 }
+        ) as any;
 
         log("PDF document loaded successfully, pages:", pdf.numPages);
 
-        log("Getting first page...");
-
-        // Create a promise that rejects after a timeout
-        const pageTimeoutPromise = new Promise((_, reject) => {
-            setTimeout(() => {
-                reject(new Error("PDF page retrieval timed out after 30 seconds"));
-            }, 30000); // 30 seconds timeout
-        });
-
-        // Race the page retrieval against the timeout
-        const page = await Promise.race([
-            pdf.getPage(1),
-            pageTimeoutPromise
-        ]) as any;
-
-        log("First page retrieved successfully");
-
-        // Reduced scale factor from 4 to 2 for better performance while maintaining readability
-        const viewport = page.getViewport({ scale: 2 });
-        log("Viewport created with dimensions:", viewport.width, "x", viewport.height);
-
-        const canvas = document.createElement("canvas");
-        const context = canvas.getContext("2d");
-
-        if (!context) {
-            console.error("Failed to get canvas 2D context");
-            throw new Error("Failed to get canvas 2D context");
+        const pageCount = options.allPages || options.stitch ? pdf.numPages : 1;
+        const canvases: HTMLCanvasElement[] = [];
+        for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+            canvases.push(await renderPage(pdf, pageNumber));
         }
 
-        canvas.width = viewport.width;
-        canvas.height = viewport.height;
-
-        context.imageSmoothingEnabled = true;
-        // Changed from "high" to "medium" for better performance
-        context.imageSmoothingQuality = "medium";
+        const originalName = file.name.replace(/\.pdf$/i, "");
+        const pages: PdfPageImage[] = [];
+        for (const [index, canvas] of canvases.entries()) {
+            const suffix = canvases.length > 1 ? `-page-${index + 1}` : "";
+            const pageFile = await canvasToFile(canvas, `${originalName}${suffix}.png`);
+            pages.push({ imageUrl: URL.createObjectURL(pageFile), file: pageFile });
+        }
 
-        log("Rendering PDF page to canvas...");
-        try {
-            // Create a promise that rejects after a timeout
-            const renderTimeoutPromise = new Promise((_, reject) => {
-                setTimeout(() => {
-                    reject(new Error("PDF page rendering timed out after 30 seconds"));
-                }, 30000); // 30 seconds timeout
-            });
-
-            // Race the rendering against the timeout
-            await Promise.race([
-                page.render({ canvasContext: context, viewport }).promise,
-                renderTimeoutPromise
-            ]);
-
-            log("PDF page rendered successfully");
-        } catch (renderError) {
-            console.error("PDF rendering error:", renderError);
-            throw new Error(`Failed to render PDF: ${renderError instanceof Error ? renderError.message : String(renderError)}`);
+        let primary: PdfPageImage = pages[0];
+        if (options.stitch && canvases.length > 1) {
+            log("Stitching pages into a single image...");
+            const stitchedFile = await canvasToFile(stitchCanvases(canvases), `${originalName}.png`);
+            primary = { imageUrl: URL.createObjectURL(stitchedFile), file: stitchedFile };
         }
 
-        log("Converting canvas to image blob...");
-        return new Promise((resolve, reject) => {
-            // Add a timeout to prevent hanging
-            const timeoutId = setTimeout(() => {
-                console.error("Timed out while creating image blob");
-                reject(new Error("Timed out while creating image blob"));
-            }, 30000); // 30 seconds timeout
+        const result: PdfConversionResult = {
+            imageUrl: primary.imageUrl,
+            file: primary.file,
+            pages,
+            pageCount: pdf.numPages,
+        };
 
-            try {
-                // Try using toDataURL as a fallback if toBlob fails
-                const tryWithDataURL = () => {
-                    try {
-                        log("Attempting to use toDataURL as fallback...");
-                        const dataUrl = canvas.toDataURL('image/png');
-
-                        // Convert data URL to blob
-                        const byteString = atob(dataUrl.split(',')[1]);
-                        const mimeString = dataUrl.split(',')[0].split(':')[1].split(';')[0];
-                        const ab = new ArrayBuffer(byteString.length);
-                        const ia = new Uint8Array(ab);
-
-                        for (let i = 0; i < byteString.length; i++) {
-                            ia[i] = byteString.charCodeAt(i);
-                        }
+        // Store in cache for future use
+        cacheResult(cacheKey, result);
 
-                        const blob = new Blob([ab], {type: mimeString});
-                        log("Successfully created blob from dataURL");
-
-                        // Create a File from the blob with the same name as the pdf
-                        const originalName = file.name.replace(/\.pdf$/i, "");
-                        const imageFile = new File([blob], `${originalName}.png`, {
-                            type: "image/png",
-                        });
-
-                        clearTimeout(timeoutId);
-
-                        const result = {
-                            imageUrl: URL.createObjectURL(blob),
-                            file: imageFile,
-                        };
-
-                        // Store in cache for future use
-                        pdfCache.set(cacheKey, result);
-
-                        resolve(result);
-                    } catch (dataUrlError) {
-                        console.error("Error using toDataURL fallback:", dataUrlError);
-                        clearTimeout(timeoutId);
-                        resolve({
-                            imageUrl: "",
-                            file: null,
-                            error: `Failed to create image using toDataURL: ${dataUrlError instanceof Error ? dataUrlError.message : String(dataUrlError)}`,
-                        });
-                    }
-                };
-
-                // First try with toBlob
-                canvas.toBlob(
-                    (blob) => {
-                        clearTimeout(timeoutId); // Clear the timeout
-
-                        if (blob) {
-                            log("Successfully created blob, size:", blob.size);
-                            try {
-                                // Create a File from the blob with the same name as the pdf
-                                const originalName = file.name.replace(/\.pdf$/i, "");
-                                const imageFile = new File([blob], `${originalName}.png`, {
-                                    type: "image/png",
-                                });
-                                log("Successfully created File from blob");
-
-                                const result = {
-                                    imageUrl: URL.createObjectURL(blob),
-                                    file: imageFile,
-                                };
-
-                                // Store in cache for future use
-                                pdfCache.set(cacheKey, result);
-
-                                resolve(result);
-                            } catch (fileError) {
-                                console.error("Error creating File from blob:", fileError);
-                                // Try with dataURL as fallback
-                                tryWithDataURL();
-                            }
-                        } else {
-                            console.error("Blob is null, trying dataURL fallback");
-                            tryWithDataURL();
-                        }
-                    },
-                    "image/png",
-                    0.8
-                ); // Reduced quality from 1.0 to 0.8 for better performance
-            } catch (blobError) {
-                console.error("Error calling toBlob:", blobError);
-                // Try with dataURL as fallback
-                tryWithDataURL();
-            }
-        });
+        return result;
     } catch (err) {
         console.error("PDF conversion error:", err);
         return {
@@ -330,3 +349,34 @@ export async function convertPdfToImage(
         };
     }
 }
+
+export async function extractPdfText(file: File | Blob): Promise<string> {
+    log("Extracting text from PDF...");
+    const lib = await loadPdfJs();
+    const arrayBuffer = await file.arrayBuffer();
+    const pdf = await lib.getDocument({ data: arrayBuffer }).promise;
+
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const textContent = await page.getTextContent();
+
+        // Rebuild line breaks from the text items so section headings stay on their own line
+        const lines: string[] = [];
+        let currentLine = '';
+        for (const item of textContent.items as { str?: string; hasEOL?: boolean }[]) {
+            if (typeof item.str !== 'string') continue;
+            currentLine += item.str;
+            if (item.hasEOL) {
+                lines.push(currentLine);
+                currentLine = '';
+            }
+        }
+        if (currentLine) lines.push(currentLine);
+
+        pages.push(lines.join('\n'));
+    }
+
+    log("Extracted text from PDF, pages:", pdf.numPages);
+    return pages.join('\n\n');
+}
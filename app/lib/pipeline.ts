@@ -0,0 +1,252 @@
+import {useEffect} from "react";
+import {create} from "zustand";
+import type {AIService, FileStorageService, KVService, ServiceResult} from "~/lib/services";
+import {useServices} from "~/lib/services/context";
+import {analyzeATS} from "~/lib/ats";
+import {parseJobDescription} from "~/lib/requirements";
+import {runAnalysis} from "~/lib/analysis";
+import {DOCUMENT_MIME_TYPES, detectDocumentFormat, ingestDocument, releaseIngestedDocument} from "~/lib/ingest";
+import {parseResumes, RESUME_KEY_PATTERN, resumeKey, tryParseResume} from "~/lib/resumes";
+import {generateUUID} from "~/lib/utils";
+import {withOperations} from "~/lib/operation";
+import {detectRubric} from "~/lib/rubrics";
+
+// The upload flow as a sequence of persisted steps. Each step saves the record before the
+// next one starts, so a closed tab or a failed call leaves a job that can pick up where it stopped.
+
+export const JOB_STEP_LABELS: Record<AnalysisJobStep, string> = {
+    ingest: 'Converting to image',
+    analyze: 'Analyzing',
+    done: 'Complete',
+};
+
+export interface PipelineServices {
+    fs: FileStorageService;
+    kv: KVService;
+    ai: AIService;
+}
+
+interface PipelineStore {
+    // Latest saved state of every record the pipeline has touched in this tab
+    resumes: Record<string, Resume>;
+    setResume: (resume: Resume) => void;
+}
+
+export const usePipelineStore = create<PipelineStore>((set) => ({
+    resumes: {},
+    setResume: (resume) => set((state) => ({ resumes: { ...state.resumes, [resume.id]: resume } })),
+}));
+
+export const isJobActive = (id: string) => usePipelineStore.getState().resumes[id]?.job?.status === 'running';
+
+const withJob = (resume: Resume, job: Partial<AnalysisJob>): Resume => ({
+    ...resume,
+    job: {
+        step: 'ingest',
+        status: 'running',
+        attempts: 0,
+        ...resume.job,
+        ...job,
+        updatedAt: Date.now(),
+    },
+});
+
+const saveResume = async (kv: KVService, resume: Resume): Promise<ServiceResult<Resume>> => {
+    const { error } = await kv.set(resumeKey(resume.id), JSON.stringify(resume));
+    if (error) return { error: `Failed to store data. ${error}` };
+
+    usePipelineStore.getState().setResume(resume);
+    return { data: resume };
+}
+
+// Uploads the original file and writes the record that the remaining steps work from
+export const createResumeJob = async (
+    { fs, kv }: PipelineServices,
+    { file, companyName, jobTitle, jobDescription, rubricId }: { file: File, companyName: string, jobTitle: string, jobDescription: string, rubricId?: RubricId }
+): Promise<ServiceResult<Resume>> => {
+    const resumeFormat = detectDocumentFormat(file);
+    if (!resumeFormat) {
+        return { error: 'Unsupported file type. Please upload a PDF, DOCX, TXT or MD file.' };
+    }
+
+    const { data: uploadedFile, error: uploadError } = await fs.upload([file]);
+    if (!uploadedFile) return { error: uploadError || 'Failed to upload file' };
+
+    const resume = withJob({
+        id: generateUUID(),
+        resumePath: uploadedFile.path,
+        resumeFormat,
+        imagePath: '',
+        companyName, jobTitle, jobDescription,
+        rubricId: rubricId || detectRubric(jobTitle).id,
+        createdAt: Date.now(),
+        versions: [],
+    }, { step: 'ingest', status: 'running' });
+
+    return saveResume(kv, resume);
+}
+
+// Reads the uploaded original back, renders previews, extracts text and runs the keyword match
+const ingestStep = async ({ fs }: PipelineServices, resume: Resume): Promise<ServiceResult<Resume>> => {
+    const { data: blob, error: readError } = await fs.read(resume.resumePath);
+    if (!blob) return { error: readError || 'Failed to read the uploaded resume' };
+
+    const format = resume.resumeFormat || 'pdf';
+    const name = resume.resumePath.split('/').pop() || `resume.${format === 'text' ? 'txt' : format}`;
+    const file = new File([blob], name, { type: DOCUMENT_MIME_TYPES[format] });
+
+    const ingested = await ingestDocument(file);
+    // Only the page files are uploaded; the preview URLs are not needed here
+    releaseIngestedDocument(ingested);
+    if (!ingested.preview.file) {
+        return { error: ingested.error || 'Failed to convert document to image' };
+    }
+
+    const pageFiles = ingested.preview.pages?.map((page) => page.file) || [ingested.preview.file];
+    const pageImagePaths: string[] = [];
+    for (const pageFile of pageFiles) {
+        const { data: uploadedImage, error } = await fs.upload([pageFile]);
+        if (!uploadedImage) return { error: error || 'Failed to upload image' };
+        pageImagePaths.push(uploadedImage.path);
+    }
+
+    // Non-PDF resumes are analysed from their extracted text
+    let analysisPath = resume.resumePath;
+    if (ingested.analysisFile !== file) {
+        const { data: uploadedText, error } = await fs.upload([ingested.analysisFile]);
+        if (!uploadedText) return { error: error || 'Failed to upload extracted text' };
+        analysisPath = uploadedText.path;
+    }
+
+    let atsAnalysis: ATSAnalysis | undefined;
+    try {
+        atsAnalysis = analyzeATS(ingested.text, resume.jobDescription || '');
+    } catch (error) {
+        // The keyword match is a supplement to the AI review, so a failure here is not fatal
+        console.error('Error computing ATS keyword match:', error);
+    }
+
+    const jobRequirements = resume.jobDescription
+        ? parseJobDescription(resume.jobDescription, resume.jobTitle)
+        : undefined;
+
+    return {
+        data: {
+            ...resume,
+            imagePath: pageImagePaths[0],
+            pageImagePaths,
+            pageCount: ingested.preview.pageCount || pageImagePaths.length,
+            analysisPath,
+            atsAnalysis,
+            jobRequirements,
+        },
+    };
+}
+
+// Streams the AI review; runAnalysis saves the record, so it is handed the finished job state
+const analyzeStep = async ({ ai, kv }: PipelineServices, resume: Resume): Promise<ServiceResult<Resume>> =>
+    runAnalysis(ai, kv, withJob(resume, { step: 'done', status: 'done', error: undefined }), {
+        analysisPath: resume.analysisPath || resume.resumePath,
+        jobTitle: resume.jobTitle || '',
+        jobDescription: resume.jobDescription || '',
+        atsAnalysis: resume.atsAnalysis,
+        jobRequirements: resume.jobRequirements,
+        rubricId: resume.rubricId,
+    });
+
+const STEPS: Record<Exclude<AnalysisJobStep, 'done'>, {
+    run: (services: PipelineServices, resume: Resume) => Promise<ServiceResult<Resume>>;
+    next: AnalysisJobStep;
+}> = {
+    ingest: { run: ingestStep, next: 'analyze' },
+    analyze: { run: analyzeStep, next: 'done' },
+};
+
+export interface PipelineOptions {
+    // Stop once this step is reached, leaving the rest to a later call (e.g. after navigating away)
+    until?: AnalysisJobStep;
+    onStep?: (step: AnalysisJobStep) => void;
+    // Cancels the step in progress; the job is saved as failed so it can be retried later
+    signal?: AbortSignal;
+}
+
+// Held while a job runs, so another tab resuming jobs on load leaves it alone. The browser
+// releases a tab's locks when it closes, so a job interrupted that way can still be resumed.
+const withJobLock = async (id: string, run: () => Promise<ServiceResult<Resume>>): Promise<ServiceResult<Resume>> => {
+    if (typeof navigator === 'undefined' || !navigator.locks) return run();
+
+    return navigator.locks.request(`resumind:job:${id}`, { ifAvailable: true }, (lock) =>
+        lock ? run() : { error: 'This analysis is already running in another tab' });
+}
+
+// Runs the remaining steps of a job, marking the job failed at the first step that fails
+const runJobSteps = async (
+    services: PipelineServices,
+    resume: Resume,
+    { until, onStep, signal }: PipelineOptions
+): Promise<ServiceResult<Resume>> => {
+    if (signal) services = withOperations(services, { signal });
+
+    let current = withJob(resume, { status: 'running', error: undefined });
+    const started = await saveResume(services.kv, current);
+    if (!started.data) return started;
+
+    while (current.job!.step !== 'done' && current.job!.step !== until) {
+        const step = current.job!.step as Exclude<AnalysisJobStep, 'done'>;
+        onStep?.(step);
+
+        // Each step runs once: transient failures are already retried call by call by the
+        // operation runner, and retrying the whole step would repeat its uploads
+        current = withJob(current, { attempts: current.job!.attempts + 1 });
+        const result = await STEPS[step].run(services, current);
+
+        if (!result.data) {
+            const error = signal?.aborted ? 'Cancelled' : result.error || 'Unknown error';
+            const failed = withJob(current, { status: 'failed', error });
+            // Saved without the signal, which has already been aborted when cancelling
+            await saveResume(withOperations(services).kv, failed);
+            return { error: failed.job!.error };
+        }
+
+        current = withJob(result.data, { step: STEPS[step].next, attempts: 0 });
+        const saved = await saveResume(services.kv, current);
+        if (!saved.data) return saved;
+    }
+
+    return { data: current };
+}
+
+// Runs a job unless another tab is already running it
+export const runPipeline = (
+    services: PipelineServices,
+    resume: Resume,
+    options: PipelineOptions = {}
+): Promise<ServiceResult<Resume>> => withJobLock(resume.id, () => runJobSteps(services, resume, options));
+
+// Picks up jobs that were still running when the app was last closed
+export const useJobResumer = () => {
+    const { isLoading, isAuthenticated, fs, kv, ai } = useServices();
+
+    useEffect(() => {
+        if (isLoading || !isAuthenticated) return;
+
+        const resumeJobs = async () => {
+            const { data } = await kv.listValues(RESUME_KEY_PATTERN);
+            const pending = parseResumes(data || [])
+                .filter((resume) => resume.job?.status === 'running' && !isJobActive(resume.id));
+
+            for (const { id } of pending) {
+                await withJobLock(id, async () => {
+                    // Another tab may have finished the job since the list was read
+                    const { data: value } = await kv.get(resumeKey(id));
+                    const resume = value ? tryParseResume(value, resumeKey(id)) : null;
+                    if (resume?.job?.status !== 'running') return {};
+
+                    return runJobSteps({ fs, kv, ai }, resume, {});
+                });
+            }
+        }
+
+        resumeJobs();
+    }, [isLoading, isAuthenticated, fs, kv, ai]);
+}
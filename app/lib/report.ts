@@ -0,0 +1,143 @@
+import type {jsPDF} from "jspdf";
+import {FEEDBACK_CATEGORIES, FEEDBACK_CATEGORY_LABELS} from "~/lib/feedback";
+import {getRubric} from "~/lib/rubrics";
+import {computeOverallScore} from "~/lib/scoring";
+import {resumeTitle} from "~/lib/resumes";
+import {blobToDataUrl, toFileSlug} from "~/lib/utils";
+
+export interface ReportInput {
+    resume: Resume;
+    feedback: Feedback;
+    rubricId?: RubricId;
+    // Object or data URL of the first page preview
+    thumbnailUrl?: string;
+}
+
+const PAGE_MARGIN = 48;
+const THUMBNAIL_WIDTH = 150;
+
+type ReportColor = 'text' | 'muted' | 'good' | 'improve';
+
+const COLORS: Record<ReportColor, [number, number, number]> = {
+    text: [31, 41, 55],
+    muted: [107, 114, 128],
+    good: [21, 128, 61],
+    improve: [161, 98, 7],
+};
+
+interface TextOptions {
+    size?: number;
+    bold?: boolean;
+    color?: ReportColor;
+    indent?: number;
+    // Space left below the text
+    gap?: number;
+}
+
+// Lays text out top to bottom, starting a new page whenever the current one is full
+export const createPdfWriter = (doc: jsPDF) => {
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    let y = PAGE_MARGIN;
+
+    const ensureSpace = (height: number) => {
+        if (y + height <= pageHeight - PAGE_MARGIN) return;
+        doc.addPage();
+        y = PAGE_MARGIN;
+    }
+
+    const text = (value: string, { size = 11, bold = false, color = 'text', indent = 0, gap = 4 }: TextOptions = {}) => {
+        doc.setFont('helvetica', bold ? 'bold' : 'normal');
+        doc.setFontSize(size);
+        doc.setTextColor(...COLORS[color]);
+
+        const lineHeight = size * 1.3;
+        const lines: string[] = doc.splitTextToSize(value, pageWidth - PAGE_MARGIN * 2 - indent);
+        for (const line of lines) {
+            ensureSpace(lineHeight);
+            doc.text(line, PAGE_MARGIN + indent, y + size);
+            y += lineHeight;
+        }
+        y += gap;
+    }
+
+    return {
+        text,
+        ensureSpace,
+        space: (height: number) => { y += height; },
+        get y() { return y; },
+        set y(value: number) { y = value; },
+    };
+}
+
+const loadImage = async (url: string) => {
+    const blob = await fetch(url).then((response) => response.blob());
+    return blobToDataUrl(blob);
+}
+
+const scoreLabel = (score: number) =>
+    score > 69 ? 'Strong' : score > 49 ? 'Good start' : 'Needs work';
+
+export const reportFileName = (resume: Resume) => `${toFileSlug(resumeTitle(resume))}-report.pdf`;
+
+// Renders the review (preview, scores, ATS tips and every category's explanations) as a PDF
+export const createReportPdf = async ({ resume, feedback, rubricId, thumbnailUrl }: ReportInput): Promise<Blob> => {
+    // Loaded on demand so the PDF library only ships to users who export
+    const { jsPDF } = await import('jspdf');
+    const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+    const writer = createPdfWriter(doc);
+
+    const rubric = getRubric(rubricId || resume.rubricId);
+    const { score, modelScore } = computeOverallScore(feedback, rubric);
+
+    writer.text('Resume Review', { size: 22, bold: true, gap: 2 });
+    writer.text(resumeTitle(resume), { size: 13, color: 'muted', gap: 2 });
+    writer.text(`Generated ${new Date().toLocaleDateString()} · ${rubric.label} rubric`, { size: 10, color: 'muted', gap: 16 });
+
+    const headerTop = writer.y;
+    let thumbnailBottom = headerTop;
+    if (thumbnailUrl) {
+        try {
+            const image = await loadImage(thumbnailUrl);
+            const { width, height } = doc.getImageProperties(image);
+            const thumbnailHeight = THUMBNAIL_WIDTH * (height / width);
+            doc.addImage(image, PAGE_MARGIN, headerTop, THUMBNAIL_WIDTH, thumbnailHeight);
+            doc.setDrawColor(229, 231, 235);
+            doc.rect(PAGE_MARGIN, headerTop, THUMBNAIL_WIDTH, thumbnailHeight);
+            thumbnailBottom = headerTop + thumbnailHeight;
+        } catch (error) {
+            console.error('Error adding resume preview to report:', error);
+        }
+    }
+
+    // Scores sit beside the preview when there is one
+    const scoresIndent = thumbnailBottom > headerTop ? THUMBNAIL_WIDTH + 24 : 0;
+    writer.text(`Overall score: ${score}/100 (${scoreLabel(score)})`, { size: 16, bold: true, indent: scoresIndent });
+    writer.text(`The AI's own overall score: ${modelScore}/100`, { size: 10, color: 'muted', indent: scoresIndent, gap: 10 });
+    for (const category of FEEDBACK_CATEGORIES) {
+        writer.text(`${FEEDBACK_CATEGORY_LABELS[category]}: ${feedback[category].score}/100`, { indent: scoresIndent, gap: 2 });
+    }
+    writer.y = Math.max(writer.y, thumbnailBottom);
+    writer.space(24);
+
+    writer.text(`ATS Score: ${feedback.ATS.score}/100`, { size: 16, bold: true, gap: 6 });
+    for (const tip of feedback.ATS.tips) {
+        writer.text(`${tip.type === 'good' ? '+' : '!'} ${tip.tip}`, { color: tip.type, indent: 8 });
+    }
+    writer.space(16);
+
+    for (const category of FEEDBACK_CATEGORIES) {
+        if (category === 'ATS') continue;
+
+        const section = feedback[category];
+        writer.ensureSpace(60);
+        writer.text(`${FEEDBACK_CATEGORY_LABELS[category]}: ${section.score}/100`, { size: 16, bold: true, gap: 6 });
+        for (const tip of section.tips) {
+            writer.text(`${tip.type === 'good' ? '+' : '!'} ${tip.tip}`, { bold: true, color: tip.type, indent: 8, gap: 2 });
+            if (tip.explanation) writer.text(tip.explanation, { size: 10, color: 'muted', indent: 20, gap: 8 });
+        }
+        writer.space(12);
+    }
+
+    return doc.output('blob');
+}
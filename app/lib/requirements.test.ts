@@ -0,0 +1,110 @@
+import {describe, expect, it} from "vitest";
+import {checkRequirements, estimateYearsOfExperience, parseJobDescription} from "~/lib/requirements";
+
+const posting = `About the role
+You will build our payments platform.
+
+Requirements:
+- 5+ years of professional experience with Python or Go language
+- Experience with PostgreSQL and Docker
+- Bachelor's degree in Computer Science, Master's preferred
+- AWS Certified Solutions Architect certification
+
+Nice to have:
+- Kubernetes and Terraform
+- Python tooling
+
+Location: Berlin, Germany`;
+
+const resume = `Experience
+Payments Co, Jan 2016 - Dec 2019
+Built services in Python on PostgreSQL.
+Ledger Ltd, 2018 - present
+Ran Docker and Kubernetes clusters.
+
+Education
+BSc Computer Science, 2012 - 2016`;
+
+describe('parseJobDescription', () => {
+    const requirements = parseJobDescription(posting, 'Senior Backend Engineer');
+
+    it('splits skills into required and preferred by section', () => {
+        expect(requirements.requiredSkills).toEqual(['Python', 'Go', 'SQL', 'AWS', 'Docker']);
+        expect(requirements.preferredSkills).toEqual(['Kubernetes', 'Terraform']);
+    });
+
+    it('reads years, degree, certifications and location', () => {
+        expect(requirements.minYearsExperience).toBe(5);
+        expect(requirements.education).toBe('bachelor');
+        expect(requirements.certifications).toEqual(['AWS Certification']);
+        expect(requirements.location).toBe('Berlin, Germany');
+        expect(requirements.remote).toBe(false);
+    });
+
+    it('takes seniority from the title rather than verbs in the body', () => {
+        expect(requirements.seniority).toBe('senior');
+        expect(parseJobDescription('You will lead projects.', 'Backend Engineer').seniority).toBeUndefined();
+    });
+
+    it('detects remote roles unless they are ruled out', () => {
+        expect(parseJobDescription('This is a fully remote position.').remote).toBe(true);
+        expect(parseJobDescription('This role is not remote.').remote).toBe(false);
+    });
+
+    it('matches terms with symbols as whole words', () => {
+        const { requiredSkills } = parseJobDescription('Requirements:\n- C++ and C#\n- Javascript (not Java)');
+
+        expect(requiredSkills).toEqual(['JavaScript', 'Java', 'C#', 'C++']);
+        expect(parseJobDescription('Requirements:\n- Javascript').requiredSkills).toEqual(['JavaScript']);
+    });
+});
+
+describe('ambiguous skill names', () => {
+    it('ignores everyday words that share a name with a skill', () => {
+        const { requiredSkills } = parseJobDescription(
+            'Requirements:\n- React quickly to customer needs\n- A spark of curiosity\n- Research the market'
+        );
+
+        expect(requiredSkills).toEqual([]);
+    });
+
+    it('counts them when written as a name or next to another skill', () => {
+        expect(parseJobDescription('Requirements:\n- Experience building UIs with React').requiredSkills).toEqual(['React']);
+        expect(parseJobDescription('Requirements:\n- react, typescript').requiredSkills).toEqual(['TypeScript', 'React']);
+        expect(parseJobDescription('Requirements:\n- React.js').requiredSkills).toEqual(['React']);
+    });
+
+    it('does not mark the skill as met by an everyday word in the resume', () => {
+        const requirements = parseJobDescription('Requirements:\n- Experience with React');
+
+        expect(checkRequirements(requirements, 'React quickly to incidents')[0].met).toBe(false);
+        expect(checkRequirements(requirements, 'Skills\nReact, Redux, TypeScript')[0].met).toBe(true);
+    });
+});
+
+describe('estimateYearsOfExperience', () => {
+    it('counts overlapping jobs once and ignores education dates', () => {
+        const currentYear = new Date().getFullYear();
+        expect(estimateYearsOfExperience(resume)).toBe(currentYear - 2016);
+    });
+
+    it('uses a stated number when it is higher', () => {
+        expect(estimateYearsOfExperience('Engineer with 12+ years of industry experience')).toBe(12);
+    });
+});
+
+describe('checkRequirements', () => {
+    it('marks each requirement as met or unmet by the resume', () => {
+        const checks = checkRequirements(parseJobDescription(posting, 'Senior Backend Engineer'), resume);
+        const met = (label: string) => checks.find((check) => check.label === label)?.met;
+
+        expect(met('Python')).toBe(true);
+        expect(met('Go')).toBe(false);
+        expect(met('Kubernetes')).toBe(true);
+        expect(met('Terraform')).toBe(false);
+        expect(met("Bachelor's degree")).toBe(true);
+        expect(met('AWS Certification')).toBe(false);
+        expect(met('Berlin, Germany')).toBe(false);
+        expect(met('5+ years of experience')).toBe(true);
+    });
+});
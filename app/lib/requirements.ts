@@ -0,0 +1,373 @@
+// Deterministic job description parsing, run entirely in the browser like the ATS keyword match
+
+import {RESUME_SECTIONS} from "~/lib/ats";
+
+// Display name → lower-case spellings to look for
+const SKILLS: Record<string, string[]> = {
+    'JavaScript': ['javascript', 'js', 'es6'],
+    'TypeScript': ['typescript'],
+    'Python': ['python'],
+    'Java': ['java'],
+    'C#': ['c#', '.net', 'dotnet'],
+    'C++': ['c++', 'cpp'],
+    'Go': ['golang', 'go language'],
+    'Rust': ['rust'],
+    'Ruby': ['ruby', 'rails', 'ruby on rails'],
+    'PHP': ['php'],
+    'Kotlin': ['kotlin'],
+    'Swift': ['swift'],
+    'Scala': ['scala'],
+    'SQL': ['sql', 'mysql', 'postgresql', 'postgres'],
+    'NoSQL': ['nosql', 'mongodb', 'dynamodb', 'cassandra'],
+    'React': ['react', 'react.js', 'reactjs'],
+    'Angular': ['angular'],
+    'Vue': ['vue', 'vue.js', 'vuejs'],
+    'Node.js': ['node.js', 'nodejs', 'node'],
+    'HTML/CSS': ['html', 'css', 'html5', 'css3'],
+    'GraphQL': ['graphql'],
+    'REST APIs': ['restful', 'rest api', 'rest apis'],
+    'Django': ['django'],
+    'Flask': ['flask'],
+    'Spring': ['spring boot', 'spring framework'],
+    'AWS': ['aws', 'amazon web services'],
+    'Azure': ['azure'],
+    'GCP': ['gcp', 'google cloud'],
+    'Docker': ['docker'],
+    'Kubernetes': ['kubernetes', 'k8s'],
+    'Terraform': ['terraform'],
+    'CI/CD': ['ci/cd', 'continuous integration', 'jenkins', 'github actions'],
+    'Git': ['git'],
+    'Linux': ['linux', 'unix'],
+    'Microservices': ['microservices', 'microservice'],
+    'Machine Learning': ['machine learning', 'ml'],
+    'Deep Learning': ['deep learning', 'neural networks'],
+    'PyTorch': ['pytorch'],
+    'TensorFlow': ['tensorflow'],
+    'Pandas': ['pandas'],
+    'Spark': ['spark', 'pyspark'],
+    'Statistics': ['statistics', 'statistical'],
+    'Data Visualization': ['data visualization', 'data visualisation'],
+    'Tableau': ['tableau'],
+    'Power BI': ['power bi', 'powerbi'],
+    'Excel': ['microsoft excel', 'ms excel', 'spreadsheets', 'pivot tables', 'vlookup'],
+    'A/B Testing': ['a/b testing', 'experimentation'],
+    'Figma': ['figma'],
+    'Adobe Creative Suite': ['adobe creative suite', 'photoshop', 'illustrator', 'indesign', 'adobe xd'],
+    'Prototyping': ['prototyping', 'prototypes', 'wireframing', 'wireframes'],
+    'User Research': ['user research', 'usability testing'],
+    'Design Systems': ['design systems', 'design system'],
+    'Salesforce': ['salesforce'],
+    'HubSpot': ['hubspot'],
+    'CRM': ['crm'],
+    'Negotiation': ['negotiation', 'negotiating'],
+    'Lead Generation': ['lead generation', 'prospecting'],
+    'SEO': ['seo', 'search engine optimization'],
+    'Agile': ['agile', 'scrum', 'kanban'],
+    'Project Management': ['project management', 'jira'],
+    'Communication': ['communication skills', 'written and verbal', 'verbal and written'],
+    'Leadership': ['leadership', 'mentoring', 'mentorship'],
+    'Stakeholder Management': ['stakeholder management', 'stakeholders'],
+    'Research': ['research experience', 'publications', 'peer-reviewed'],
+    'Teaching': ['teaching', 'curriculum'],
+};
+
+// Spellings that are also everyday words, as in "react quickly" or "a spark of curiosity"
+const AMBIGUOUS_TERMS = new Set(['react', 'node', 'spark', 'swift', 'rust']);
+
+// Display name → lower-case spellings; checked in addition to "<Name> certification" phrases
+const CERTIFICATIONS: Record<string, string[]> = {
+    'AWS Certification': ['aws certified', 'aws certification'],
+    'PMP': ['pmp', 'project management professional'],
+    'CPA': ['cpa', 'certified public accountant'],
+    'CFA': ['cfa', 'chartered financial analyst'],
+    'CISSP': ['cissp'],
+    'CISM': ['cism'],
+    'CompTIA Security+': ['security+'],
+    'CCNA': ['ccna'],
+    'Certified Scrum Master': ['certified scrum master', 'certified scrummaster', 'csm'],
+    'Six Sigma': ['six sigma', 'lean six sigma'],
+    'ITIL': ['itil'],
+    'SHRM': ['shrm-cp', 'shrm-scp', 'shrm'],
+    'Google Analytics Certification': ['google analytics certification', 'google analytics certified'],
+    'Salesforce Certification': ['salesforce certified', 'salesforce certification'],
+};
+
+const EDUCATION_LEVELS: EducationLevel[] = ['high-school', 'associate', 'bachelor', 'master', 'doctorate'];
+
+export const EDUCATION_LABELS: Record<EducationLevel, string> = {
+    'high-school': 'High school diploma',
+    associate: "Associate's degree",
+    bachelor: "Bachelor's degree",
+    master: "Master's degree",
+    doctorate: 'PhD or doctorate',
+};
+
+const EDUCATION_PATTERNS: Record<EducationLevel, RegExp> = {
+    'high-school': /\b(high school|ged)\b/i,
+    associate: /\bassociate'?s?\s+degree\b/i,
+    bachelor: /\b(bachelor'?s?|bsc|b\.s\.|b\.a\.|bs\/ba|ba\/bs|undergraduate degree|(?:4|four)[- ]year degree)\b/i,
+    master: /\b(master'?s?|msc|m\.s\.|mba)\b/i,
+    doctorate: /\b(ph\.?d|doctorate|doctoral)\b/i,
+};
+
+export const SENIORITY_LABELS: Record<SeniorityLevel, string> = {
+    intern: 'Internship',
+    entry: 'Entry level',
+    mid: 'Mid level',
+    senior: 'Senior',
+    lead: 'Lead',
+    principal: 'Staff / Principal',
+    manager: 'Manager',
+    director: 'Director',
+};
+
+// Checked in order, so the more specific titles win
+const SENIORITY_PATTERNS: [SeniorityLevel, RegExp][] = [
+    ['intern', /\b(intern|internship|co-op)\b/i],
+    ['director', /\b(director|head of|vp|vice president)\b/i],
+    ['principal', /\b(principal|staff|distinguished|architect)\b/i],
+    ['manager', /\b(?<!(product|project|program|account|community|office)\s)manager\b/i],
+    ['lead', /\b(lead|team lead|tech lead)\b/i],
+    ['senior', /\b(senior|sr\.?|senior[- ]level)\b/i],
+    ['mid', /\b(mid[- ]level|intermediate)\b/i],
+    ['entry', /\b(junior|jr\.?|entry[- ]level|graduate|new grad)\b/i],
+];
+
+// Rough years of experience each level implies, used when the posting gives no number
+const SENIORITY_YEARS: Record<SeniorityLevel, number> = {
+    intern: 0,
+    entry: 0,
+    mid: 2,
+    senior: 5,
+    lead: 6,
+    principal: 8,
+    manager: 5,
+    director: 10,
+};
+
+const REQUIRED_HEADING = /^(requirements|required|qualifications|minimum qualifications|basic qualifications|must[- ]haves?|what you('|’)ll need|what we('|’)re looking for|who you are|you have|skills)\b/i;
+const PREFERRED_HEADING = /^(preferred|nice[- ]to[- ]haves?|bonus|desired|pluses|extra credit|preferred qualifications)\b/i;
+const OTHER_HEADING = /^(responsibilities|what you('|’)ll do|about|benefits|perks|compensation|the role|who we are)\b/i;
+const PREFERRED_LINE = /\b(preferred|nice to have|bonus|a plus|desired|ideally)\b/i;
+
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?\\s+';
+const DATE_RANGE = new RegExp(`(?:${MONTH})?((?:19|20)\\d{2})\\s*(?:-|–|—|to)\\s*(?:${MONTH})?((?:19|20)\\d{2}|present|current|now|today)`, 'gi');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+// Whole-term match that also works for terms such as "c++" or "node.js"
+const containsTerm = (text: string, term: string) =>
+    new RegExp(`(?<![a-z0-9+#.])${escapeRegExp(term)}(?![a-z0-9+#]|\\.[a-z])`, 'i').test(text);
+
+const UNAMBIGUOUS_SKILL_TERMS = Object.values(SKILLS).flat().filter((term) => !AMBIGUOUS_TERMS.has(term));
+
+// An everyday word only names the skill when it is capitalised mid-sentence ("built with React")
+// or shares a line with another skill ("React, TypeScript")
+const isSkillContext = (line: string, term: string) =>
+    new RegExp(`[^\\s.!?:*•-]\\s+${escapeRegExp(term[0].toUpperCase() + term.slice(1))}(?![a-z0-9+#])`).test(line)
+    || UNAMBIGUOUS_SKILL_TERMS.some((other) => containsTerm(line, other));
+
+const matchesTerm = (text: string, term: string) => AMBIGUOUS_TERMS.has(term)
+    ? text.split('\n').some((line) => containsTerm(line, term) && isSkillContext(line, term))
+    : containsTerm(text, term);
+
+const findTerms = (text: string, dictionary: Record<string, string[]>) =>
+    Object.keys(dictionary).filter((name) => dictionary[name].some((term) => matchesTerm(text, term)));
+
+const hasTerm = (text: string, name: string, dictionary: Record<string, string[]>) =>
+    (dictionary[name] || [name.toLowerCase()]).some((term) => matchesTerm(text, term));
+
+type Section = 'required' | 'preferred' | 'other';
+
+// Splits the posting into lines tagged with the section they appear under
+const classifyLines = (jobDescription: string): { line: string, section: Section, preferred: boolean }[] => {
+    let section: Section = 'other';
+
+    return jobDescription
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((line) => {
+            const heading = line.replace(/^[#*\s]+|[:*\s]+$/g, '');
+            if (heading.length < 60) {
+                if (PREFERRED_HEADING.test(heading)) section = 'preferred';
+                else if (REQUIRED_HEADING.test(heading)) section = 'required';
+                else if (OTHER_HEADING.test(heading)) section = 'other';
+            }
+
+            // A line can mix both, e.g. "Bachelor's degree required, Master's preferred"
+            return { line, section, preferred: section === 'preferred' || PREFERRED_LINE.test(line) };
+        });
+}
+
+const findYears = (text: string) =>
+    [...text.matchAll(/(\d{1,2})\s*\+?\s*(?:(?:-|–|to)\s*\d{1,2}\s*\+?\s*)?(?:years?|yrs?)\b/gi)].map((match) => Number(match[1]));
+
+const findCertifications = (text: string) => {
+    const named = [...text.matchAll(/\b((?:[A-Z][\w+/-]*\s+){1,4})certification\b/g)]
+        .map((match) => `${match[1].trim()} certification`);
+    const known = findTerms(text, CERTIFICATIONS);
+
+    // Drop named phrases that repeat a known certification
+    return [...known, ...named.filter((name) => !known.some((cert) => hasTerm(name, cert, CERTIFICATIONS)))]
+        .filter((name, index, all) => all.findIndex((other) => other.toLowerCase() === name.toLowerCase()) === index);
+}
+
+const findEducation = (text: string, pick: 'lowest' | 'highest'): EducationLevel | undefined => {
+    const levels = EDUCATION_LEVELS.filter((level) => EDUCATION_PATTERNS[level].test(text));
+    return pick === 'lowest' ? levels[0] : levels.at(-1);
+}
+
+const findSeniority = (text: string): SeniorityLevel | undefined =>
+    SENIORITY_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+
+export const parseJobDescription = (jobDescription: string, jobTitle: string = ''): JobRequirements => {
+    const lines = classifyLines(jobDescription);
+    const join = (selected: typeof lines) => selected.map((line) => line.line).join('\n');
+
+    // Headings decide what degree and experience are required; skills go by the wording of each line
+    const requiredSectionText = join(lines.filter((line) => line.section !== 'preferred'));
+    const requiredSkills = findTerms(join(lines.filter((line) => !line.preferred)), SKILLS);
+    const preferredSkills = findTerms(join(lines.filter((line) => line.preferred)), SKILLS);
+
+    const experienceYears = findYears(
+        requiredSectionText.split('\n').filter((line) => /experience|background|professional/i.test(line)).join('\n')
+    );
+
+    const location = jobDescription.match(/^\s*(?:location|based in|office)\s*[:\-–]\s*(.+)$/im)?.[1].trim();
+    const isRemote = /\b(remote|work from home|wfh|distributed team)\b/i.test(jobDescription)
+        && !/\b(not|no)\s+remote\b/i.test(jobDescription);
+
+    return {
+        requiredSkills,
+        preferredSkills: preferredSkills.filter((skill) => !requiredSkills.includes(skill)),
+        minYearsExperience: experienceYears.length ? Math.max(...experienceYears) : undefined,
+        education: findEducation(requiredSectionText, 'lowest'),
+        certifications: findCertifications(jobDescription),
+        location: location && location.length < 80 ? location : undefined,
+        remote: isRemote,
+        // Titles are the reliable signal; in body text words like "lead" are usually verbs
+        seniority: findSeniority(jobTitle) || findSeniority(jobDescription.match(/\b(entry|mid|senior)[- ]level\b/i)?.[0] || ''),
+    };
+}
+
+// The experience section, when the resume has one, so education dates are not counted as work
+const experienceText = (resumeText: string) => {
+    const start = resumeText.search(RESUME_SECTIONS.experience);
+    if (start === -1) return resumeText;
+
+    const rest = resumeText.slice(start + 1);
+    const ends = Object.entries(RESUME_SECTIONS)
+        .filter(([name]) => name !== 'experience')
+        .map(([, pattern]) => rest.search(pattern))
+        .filter((index) => index > 0);
+
+    return rest.slice(0, ends.length ? Math.min(...ends) : undefined);
+}
+
+// Estimates years of experience from the date ranges in the experience section
+export const estimateYearsOfExperience = (resumeText: string): number => {
+    const currentYear = new Date().getFullYear();
+    const ranges = [...experienceText(resumeText).matchAll(DATE_RANGE)]
+        .map((match) => {
+            const end = /^\d+$/.test(match[2]) ? Number(match[2]) : currentYear;
+            return [Number(match[1]), end] as [number, number];
+        })
+        .filter(([start, end]) => start <= end)
+        .sort((a, b) => a[0] - b[0]);
+
+    // Overlapping jobs are only counted once
+    let total = 0;
+    let coveredUntil = 0;
+    for (const [start, end] of ranges) {
+        const from = Math.max(start, coveredUntil);
+        if (end > from) total += end - from;
+        coveredUntil = Math.max(coveredUntil, end);
+    }
+
+    const stated = [...resumeText.matchAll(/(\d{1,2})\+?\s*years?\s+of\s+(?:professional\s+|industry\s+|relevant\s+)?experience/gi)]
+        .map((match) => Number(match[1]));
+
+    return Math.max(total, ...stated);
+}
+
+export type RequirementGroup = 'required' | 'preferred' | 'experience' | 'education' | 'certification' | 'location' | 'seniority';
+
+export const REQUIREMENT_GROUP_LABELS: Record<RequirementGroup, string> = {
+    required: 'Required skills',
+    preferred: 'Preferred skills',
+    experience: 'Experience',
+    education: 'Education',
+    certification: 'Certifications',
+    location: 'Location',
+    seniority: 'Seniority',
+};
+
+export interface RequirementCheck {
+    group: RequirementGroup;
+    label: string;
+    met: boolean;
+    // What was found in the resume, where that is useful to show
+    detail?: string;
+}
+
+// Marks every parsed requirement as met or unmet by the resume text
+export const checkRequirements = (requirements: JobRequirements, resumeText: string): RequirementCheck[] => {
+    const years = estimateYearsOfExperience(resumeText);
+    const education = findEducation(resumeText, 'highest');
+    const checks: RequirementCheck[] = [];
+
+    for (const skill of requirements.requiredSkills) {
+        checks.push({ group: 'required', label: skill, met: hasTerm(resumeText, skill, SKILLS) });
+    }
+    for (const skill of requirements.preferredSkills) {
+        checks.push({ group: 'preferred', label: skill, met: hasTerm(resumeText, skill, SKILLS) });
+    }
+
+    if (requirements.minYearsExperience !== undefined) {
+        checks.push({
+            group: 'experience',
+            label: `${requirements.minYearsExperience}+ years of experience`,
+            met: years >= requirements.minYearsExperience,
+            detail: `About ${years} ${years === 1 ? 'year' : 'years'} found`,
+        });
+    }
+
+    if (requirements.education) {
+        checks.push({
+            group: 'education',
+            label: EDUCATION_LABELS[requirements.education],
+            met: !!education && EDUCATION_LEVELS.indexOf(education) >= EDUCATION_LEVELS.indexOf(requirements.education),
+            detail: education ? `${EDUCATION_LABELS[education]} found` : 'No degree found',
+        });
+    }
+
+    for (const certification of requirements.certifications) {
+        checks.push({
+            group: 'certification',
+            label: certification,
+            met: hasTerm(resumeText, certification, CERTIFICATIONS),
+        });
+    }
+
+    if (requirements.remote || requirements.location) {
+        const city = requirements.location?.split(/[,(/]/)[0].trim();
+        checks.push({
+            group: 'location',
+            label: [requirements.remote && 'Remote', requirements.location].filter(Boolean).join(' · '),
+            met: requirements.remote || (!!city && containsTerm(resumeText, city.toLowerCase())),
+        });
+    }
+
+    if (requirements.seniority) {
+        const expected = SENIORITY_YEARS[requirements.seniority];
+        checks.push({
+            group: 'seniority',
+            label: SENIORITY_LABELS[requirements.seniority],
+            met: years >= expected,
+            detail: expected ? `Usually ${expected}+ years` : undefined,
+        });
+    }
+
+    return checks;
+}
@@ -0,0 +1,34 @@
+import {describe, expect, it, vi} from "vitest";
+import {parseResumes, tryParseResume} from "~/lib/resumes";
+
+const record = (id: string) => JSON.stringify({
+    id,
+    resumePath: `/resumes/${id}.pdf`,
+    imagePath: `/resumes/${id}.png`,
+    job: { step: 'ingest', status: 'running', attempts: 0, updatedAt: 0 },
+});
+
+describe('parseResumes', () => {
+    it('skips records that are not valid JSON', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const resumes = parseResumes([
+            { key: 'resume:a', value: record('a') },
+            { key: 'resume:b', value: '{"id": "b", "resumePa' },
+            { key: 'resume:c', value: record('c') },
+        ]);
+
+        expect(resumes.map((resume) => resume.id)).toEqual(['a', 'c']);
+        expect(warn).toHaveBeenCalledWith('Skipping unreadable resume:b:', expect.any(SyntaxError));
+        warn.mockRestore();
+    });
+});
+
+describe('tryParseResume', () => {
+    it('marks records left without feedback or a job as failed', () => {
+        const resume = tryParseResume(JSON.stringify({ id: 'a', resumePath: '/a.pdf', imagePath: '' }));
+
+        expect(resume?.job?.status).toBe('failed');
+        expect(resume?.job?.step).toBe('ingest');
+    });
+});
@@ -0,0 +1,218 @@
+import {useRef, useState} from "react";
+import type {KVService, ServiceResult} from "~/lib/services";
+import {generateUUID} from "~/lib/utils";
+import {getOverallScore} from "~/lib/scoring";
+
+// Helpers for the `resume:${id}` records kept in the key-value store
+
+export const RESUME_KEY_PATTERN = 'resume:*';
+
+export const resumeKey = (id: string) => `resume:${id}`;
+
+// A record whose first analysis has finished
+export type AnalyzedResume = Resume & { feedback: Feedback };
+
+export const isAnalyzed = (resume: Resume): resume is AnalyzedResume => !!resume.feedback;
+
+export const resumeTitle = (resume: Resume) =>
+    [resume.companyName, resume.jobTitle].filter(Boolean).join(' · ') || 'Resume';
+
+export const createAnalysisVersion = (
+    { feedback, atsAnalysis, jobRequirements, jobTitle, jobDescription, model, preset, rubricId }: Omit<AnalysisVersion, 'id' | 'createdAt'>
+): AnalysisVersion => ({
+    id: generateUUID(),
+    createdAt: Date.now(),
+    feedback,
+    atsAnalysis,
+    jobRequirements,
+    jobTitle,
+    jobDescription,
+    model,
+    preset,
+    rubricId,
+});
+
+// Brings records written before analysis history existed up to the versioned format
+export const normalizeResume = (raw: any): Resume => {
+    const resume = raw as Resume;
+
+    // Records left without feedback by the old single-shot upload can be retried from analysis
+    if (!resume.feedback && !resume.job) {
+        return {
+            ...resume,
+            job: {
+                step: resume.imagePath ? 'analyze' : 'ingest',
+                status: 'failed',
+                error: 'The analysis was interrupted',
+                attempts: 0,
+                updatedAt: resume.createdAt || 0,
+            },
+        };
+    }
+
+    if (resume.versions?.length || !resume.feedback) return resume;
+
+    return {
+        ...resume,
+        versions: [{
+            id: `${resume.id}-initial`,
+            createdAt: resume.createdAt || 0,
+            feedback: resume.feedback,
+            atsAnalysis: resume.atsAnalysis,
+            jobTitle: resume.jobTitle,
+            jobDescription: resume.jobDescription,
+        }],
+    };
+}
+
+export const parseResume = (value: string): Resume => normalizeResume(JSON.parse(value));
+
+// Like parseResume, but a corrupt or partly written record is logged and skipped instead of
+// throwing inside the effect that loaded it
+export const tryParseResume = (value: string, key: string = 'resume record'): Resume | null => {
+    try {
+        return parseResume(value);
+    } catch (error) {
+        console.warn(`Skipping unreadable ${key}:`, error);
+        return null;
+    }
+}
+
+export const parseResumes = (items: KVItem[]): Resume[] =>
+    items.map((item) => tryParseResume(item.value, item.key)).filter((resume): resume is Resume => !!resume);
+
+export type ResumeListStatus = 'idle' | 'loading' | 'loaded' | 'failed';
+
+// Every analyzed record, loaded on the first call to `load` so pickers do not read the whole store
+// on page load. A failed load is tried again on the next call.
+export const useAnalyzedResumes = (kv: KVService) => {
+    const [resumes, setResumes] = useState<AnalyzedResume[]>([]);
+    const [status, setStatus] = useState<ResumeListStatus>('idle');
+    // Focus and mouse down both call load in the same tick, before the state update lands
+    const statusRef = useRef<ResumeListStatus>('idle');
+
+    const changeStatus = (next: ResumeListStatus) => {
+        statusRef.current = next;
+        setStatus(next);
+    }
+
+    const load = async () => {
+        if (statusRef.current === 'loading' || statusRef.current === 'loaded') return;
+        changeStatus('loading');
+
+        const { data, error } = await kv.listValues(RESUME_KEY_PATTERN);
+        if (!data) {
+            console.error('Failed to load resumes:', error);
+            return changeStatus('failed');
+        }
+
+        setResumes(parseResumes(data).filter(isAnalyzed));
+        changeStatus('loaded');
+    }
+
+    return { resumes, status, load };
+}
+
+// Records a new analysis run and makes it the record's current feedback
+export const appendAnalysisVersion = (resume: Resume, version: AnalysisVersion): Resume => ({
+    ...resume,
+    feedback: version.feedback,
+    atsAnalysis: version.atsAnalysis,
+    jobRequirements: version.jobRequirements,
+    jobDescription: version.jobDescription,
+    rubricId: version.rubricId || resume.rubricId,
+    versions: [...(normalizeResume(resume).versions || []), version],
+});
+
+// Re-reads the stored record and writes back only the fields `change` returns, so edits saved
+// since the caller loaded its copy (an application note, a finished analysis) are kept
+export const updateResumeRecord = async (
+    kv: KVService,
+    id: string,
+    change: (current: Resume) => Partial<Resume>
+): Promise<ServiceResult<Resume>> => {
+    const { data, error } = await kv.get(resumeKey(id));
+    if (!data) return { error: error || 'Resume not found' };
+
+    const current = tryParseResume(data, resumeKey(id));
+    if (!current) return { error: 'The stored resume could not be read' };
+
+    const updated: Resume = { ...current, ...change(current) };
+    const { error: saveError } = await kv.set(resumeKey(id), JSON.stringify(updated));
+    if (saveError) return { error: saveError };
+
+    return { data: updated };
+}
+
+// Same thresholds as the ATS card: > 69 is strong, > 49 a good start
+export type ScoreBand = 'strong' | 'good' | 'weak';
+
+export const SCORE_BAND_LABELS: Record<ScoreBand, string> = {
+    strong: 'Strong (70+)',
+    good: 'Good Start (50-69)',
+    weak: 'Needs Work (0-49)',
+};
+
+export const getScoreBand = (score: number): ScoreBand =>
+    score > 69 ? 'strong' : score > 49 ? 'good' : 'weak';
+
+export const RESUME_SORTS = {
+    newest: 'Newest first',
+    oldest: 'Oldest first',
+    'score-desc': 'Highest score',
+    'score-asc': 'Lowest score',
+} as const;
+
+export type ResumeSort = keyof typeof RESUME_SORTS;
+
+export interface ResumeFilters {
+    query: string;
+    band: ScoreBand | '';
+    sort: ResumeSort;
+}
+
+const isResumeSort = (value: string | null): value is ResumeSort => !!value && Object.hasOwn(RESUME_SORTS, value);
+const isScoreBand = (value: string | null): value is ScoreBand => !!value && Object.hasOwn(SCORE_BAND_LABELS, value);
+
+// Filter state lives in the query string (?q=&band=&sort=) so views can be bookmarked and shared
+export const readResumeFilters = (params: URLSearchParams): ResumeFilters => {
+    const band = params.get('band');
+    const sort = params.get('sort');
+
+    return {
+        query: params.get('q') || '',
+        band: isScoreBand(band) ? band : '',
+        sort: isResumeSort(sort) ? sort : 'newest',
+    };
+}
+
+export const writeResumeFilters = ({ query, band, sort }: ResumeFilters): URLSearchParams => {
+    const params = new URLSearchParams();
+    if (query) params.set('q', query);
+    if (band) params.set('band', band);
+    if (sort !== 'newest') params.set('sort', sort);
+    return params;
+}
+
+export const filterResumes = (resumes: Resume[], { query, band, sort }: ResumeFilters): Resume[] => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+    return resumes
+        .filter((resume) => {
+            const haystack = `${resume.companyName || ''} ${resume.jobTitle || ''}`.toLowerCase();
+            return terms.every((term) => haystack.includes(term));
+        })
+        .filter((resume) => !band || (resume.feedback && getScoreBand(getOverallScore(resume)) === band))
+        .sort((a, b) => {
+            switch (sort) {
+                case 'oldest':
+                    return (a.createdAt || 0) - (b.createdAt || 0);
+                case 'score-desc':
+                    return getOverallScore(b) - getOverallScore(a);
+                case 'score-asc':
+                    return getOverallScore(a) - getOverallScore(b);
+                default:
+                    return (b.createdAt || 0) - (a.createdAt || 0);
+            }
+        });
+}
@@ -0,0 +1,154 @@
+import type {AIService, ServiceResult} from "~/lib/services";
+import {extractJson, FEEDBACK_CATEGORIES, getResponseText} from "~/lib/feedback";
+import {RESUME_SECTIONS} from "~/lib/ats";
+import {getGenerationOptions} from "~/lib/settings";
+import {prepareRewriteInstructions} from "../../constants";
+
+export type RewriteStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface BulletRewrite {
+    id: string;
+    original: string;
+    proposed: string;
+    // The review tip the rewrite addresses
+    tip: string;
+    status: RewriteStatus;
+}
+
+export interface DiffPart {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+const BULLET_PATTERN = /^\s*[•●○◦▪▫■□‣⁃∙·*–—-]\s+/;
+const MAX_BULLETS = 20;
+
+const isHeading = (line: string) => Object.values(RESUME_SECTIONS).some((pattern) => pattern.test(line));
+
+// Pulls bullet points out of extracted resume text, joining lines that wrapped in the PDF
+export const extractBullets = (text: string): string[] => {
+    const bullets: string[] = [];
+    let current: string | null = null;
+
+    for (const rawLine of text.split('\n')) {
+        const line = rawLine.trim();
+        if (BULLET_PATTERN.test(line)) {
+            if (current) bullets.push(current);
+            current = line.replace(BULLET_PATTERN, '');
+        } else if (current && line && /^[a-z(&,]/.test(line) && !isHeading(line)) {
+            // A continuation starts mid-sentence, so it begins in lower case
+            current += ` ${line}`;
+        } else {
+            if (current) bullets.push(current);
+            current = null;
+        }
+    }
+    if (current) bullets.push(current);
+
+    return bullets
+        .map((bullet) => bullet.replace(/\s+/g, ' ').trim())
+        // Very short bullets are usually skills lists or contact details
+        .filter((bullet) => bullet.split(' ').length >= 5)
+        .slice(0, MAX_BULLETS);
+}
+
+const improvementTips = (feedback: Feedback) =>
+    FEEDBACK_CATEGORIES
+        .flatMap((category) => feedback[category].tips)
+        .filter((tip) => tip.type === 'improve')
+        .map((tip) => tip.tip);
+
+export const requestRewrites = async (
+    ai: AIService,
+    { bullets, feedback, jobDescription }: { bullets: string[], feedback: Feedback, jobDescription: string }
+): Promise<ServiceResult<BulletRewrite[]>> => {
+    if (!bullets.length) {
+        return { error: 'No bullet points were found in the resume' };
+    }
+
+    const result = await ai.chat(
+        prepareRewriteInstructions({ bullets, tips: improvementTips(feedback), jobDescription }),
+        getGenerationOptions()
+    );
+    if (!result.data) {
+        return { error: `Failed to suggest rewrites. ${result.error || ''}`.trim(), errorKind: result.errorKind };
+    }
+
+    const json = extractJson(getResponseText(result.data));
+    let rewrites: unknown;
+    try {
+        rewrites = json && JSON.parse(json).rewrites;
+    } catch {
+        rewrites = null;
+    }
+    if (!Array.isArray(rewrites)) {
+        return { error: 'Failed to parse the suggested rewrites', errorKind: 'parse' };
+    }
+
+    return {
+        data: rewrites
+            .filter((rewrite) =>
+                Number.isInteger(rewrite?.index) && bullets[rewrite.index] &&
+                typeof rewrite.rewrite === 'string' && rewrite.rewrite.trim() &&
+                rewrite.rewrite.trim() !== bullets[rewrite.index])
+            .map((rewrite, position) => ({
+                id: `${rewrite.index}-${position}`,
+                original: bullets[rewrite.index],
+                proposed: rewrite.rewrite.trim().replace(BULLET_PATTERN, ''),
+                tip: typeof rewrite.tip === 'string' ? rewrite.tip : '',
+                status: 'pending' as const,
+            })),
+    };
+}
+
+// Word-level diff of two bullets, built from their longest common subsequence
+export const diffWords = (before: string, after: string): DiffPart[] => {
+    const a = before.split(/(\s+)/).filter(Boolean);
+    const b = after.split(/(\s+)/).filter(Boolean);
+
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    const push = (type: DiffPart['type'], text: string) => {
+        const last = parts.at(-1);
+        if (last?.type === type) last.text += text;
+        else parts.push({ type, text });
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            push('same', a[i]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+
+    return parts;
+}
+
+export const rewritesToText = (rewrites: BulletRewrite[]) =>
+    rewrites.map((rewrite) => `• ${rewrite.proposed}`).join('\n');
+
+export const rewritesToMarkdown = (rewrites: BulletRewrite[]) =>
+    [
+        '# Accepted Rewrites',
+        '',
+        ...rewrites.flatMap((rewrite) => [
+            `- ${rewrite.proposed}`,
+            `  - Was: ${rewrite.original}`,
+            ...(rewrite.tip ? [`  - Addresses: ${rewrite.tip}`] : []),
+        ]),
+    ].join('\n');
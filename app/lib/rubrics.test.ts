@@ -0,0 +1,39 @@
+import {describe, expect, it} from "vitest";
+import {detectRubric, getRubric} from "~/lib/rubrics";
+
+describe('detectRubric', () => {
+    it.each([
+        ['Senior Backend Engineer', 'software-engineering'],
+        ['UI Engineer', 'software-engineering'],
+        ['UX Engineer', 'software-engineering'],
+        ['Data Platform Engineer', 'software-engineering'],
+        ['Software Design Engineer', 'software-engineering'],
+        ['Machine Learning Engineer', 'data-science'],
+        ['AI Researcher', 'data-science'],
+        ['Data Scientist', 'data-science'],
+        ['Business Analyst', 'data-science'],
+        ['Product Designer', 'design'],
+        ['UI/UX Lead', 'design'],
+        ['Sales Engineer', 'sales'],
+        ['Account Executive', 'sales'],
+        ['Assistant Professor of Biology', 'academic'],
+        ['Junior Software Engineer', 'new-grad'],
+        ['Office Manager', 'general'],
+    ])('picks a rubric for "%s"', (title, id) => {
+        expect(detectRubric(title).id).toBe(id);
+    });
+
+    it.each(['Reengineering Manager', 'Hiring programmers', 'Retail Sales Associate'])(
+        'does not treat "%s" as an engineering role',
+        (title) => {
+            expect(detectRubric(title).id).not.toBe('software-engineering');
+        }
+    );
+});
+
+describe('getRubric', () => {
+    it('falls back to the general rubric', () => {
+        expect(getRubric('unknown').id).toBe('general');
+        expect(getRubric().id).toBe('general');
+    });
+});
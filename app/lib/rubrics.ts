@@ -0,0 +1,119 @@
+// Role-specific rubrics that shape the analysis prompt and the category weighting
+
+export const DEFAULT_RUBRIC_ID: RubricId = 'general';
+
+export const RUBRICS: Record<RubricId, Rubric> = {
+    general: {
+        id: 'general',
+        label: 'General',
+        description: 'A balanced review for any role.',
+        titlePatterns: [],
+        weights: { ATS: 20, toneAndStyle: 20, content: 25, structure: 15, skills: 20 },
+        mustCheck: [
+            'Each role lists concrete achievements rather than duties',
+            'Contact details are present and professional',
+        ],
+        tone: 'Clear, confident and concise, written in an active voice.',
+    },
+    'software-engineering': {
+        id: 'software-engineering',
+        label: 'Software Engineering',
+        description: 'Engineering roles: impact, scale and technical depth.',
+        titlePatterns: [/\b(software|backend|back-end|frontend|front-end|full[- ]?stack|devops|sre|platform|mobile|ios|android|web)\b/i, /\b(engineer|developer|programmer)\b/i],
+        weights: { ATS: 20, toneAndStyle: 10, content: 30, structure: 10, skills: 30 },
+        mustCheck: [
+            'Projects and roles quantify impact (latency, scale, users, revenue)',
+            'Languages, frameworks and tools are listed and match the job description',
+            'Links to GitHub, a portfolio or shipped products where relevant',
+            'Ownership of systems and technical decisions is clear',
+        ],
+        tone: 'Precise and technical without jargon for its own sake; favour measurable outcomes.',
+    },
+    design: {
+        id: 'design',
+        label: 'Design',
+        description: 'Product, UX and visual design roles.',
+        // "UI Engineer" and "Software Design Engineer" are engineering roles, so bare design words only count without one
+        titlePatterns: [
+            /\b(designer|product design|interaction design|user experience|user research(er)?)\b/i,
+            /\b(ux|ui|design)\b(?!.*\b(engineer|developer|programmer)\b)/i,
+        ],
+        weights: { ATS: 15, toneAndStyle: 20, content: 25, structure: 25, skills: 15 },
+        mustCheck: [
+            'A portfolio link is present and prominent',
+            'Case studies describe the problem, process and measurable outcome',
+            'Collaboration with engineering and product is shown',
+            'The layout itself is clean and visually consistent',
+        ],
+        tone: 'Human and story-driven, showing design reasoning as well as results.',
+    },
+    'data-science': {
+        id: 'data-science',
+        label: 'Data Science',
+        description: 'Data science, analytics and machine learning roles.',
+        // "Data" alone also names engineering roles such as "Data Platform Engineer"
+        titlePatterns: [/\b(data scien(ce|tist)|machine learning|ml|ai|analytics|analyst|statistics|statistician|scientist)\b/i],
+        weights: { ATS: 20, toneAndStyle: 10, content: 30, structure: 10, skills: 30 },
+        mustCheck: [
+            'Models and analyses are tied to business decisions or outcomes',
+            'Statistical and ML methods are named specifically',
+            'Tooling (Python, SQL, frameworks, cloud) matches the job description',
+            'Data scale and experiment results are quantified',
+        ],
+        tone: 'Rigorous and evidence-based, explaining impact in plain language.',
+    },
+    sales: {
+        id: 'sales',
+        label: 'Sales',
+        description: 'Sales, account management and business development roles.',
+        titlePatterns: [/\b(sales|account (executive|manager)|business development|bdr|sdr|customer success|partnerships)\b/i],
+        weights: { ATS: 20, toneAndStyle: 25, content: 30, structure: 10, skills: 15 },
+        mustCheck: [
+            'Quota attainment, revenue and pipeline numbers are stated',
+            'Deal sizes, sales cycles and customer segments are described',
+            'CRM and sales tooling is listed',
+            'Awards, rankings or promotions are highlighted',
+        ],
+        tone: 'Energetic and results-first, leading every bullet with a number where possible.',
+    },
+    academic: {
+        id: 'academic',
+        label: 'Academic CV',
+        description: 'Research and faculty positions using a full academic CV.',
+        titlePatterns: [/\b(professor|lecturer|postdoc|post-doctoral|research (fellow|associate|scientist)|phd|faculty|academic)\b/i],
+        weights: { ATS: 5, toneAndStyle: 15, content: 40, structure: 25, skills: 15 },
+        mustCheck: [
+            'Publications are complete and consistently cited',
+            'Grants, funding and awards are listed with amounts and dates',
+            'Teaching and supervision experience is described',
+            'Research interests are stated clearly near the top',
+        ],
+        tone: 'Formal and precise; length is acceptable when the content is substantive.',
+    },
+    'new-grad': {
+        id: 'new-grad',
+        label: 'New Graduate',
+        description: 'Entry-level roles, internships and recent graduates.',
+        titlePatterns: [/\b(intern|internship|graduate|new grad|entry[- ]level|junior|trainee|apprentice)\b/i],
+        weights: { ATS: 20, toneAndStyle: 15, content: 25, structure: 20, skills: 20 },
+        mustCheck: [
+            'Education comes first with degree, graduation date and relevant coursework',
+            'Projects, internships and extracurriculars show initiative',
+            'The resume fits on one page',
+            'Transferable skills are tied to concrete examples',
+        ],
+        tone: 'Enthusiastic but professional; potential and learning speed matter more than years of experience.',
+    },
+};
+
+export const getRubric = (id?: string): Rubric =>
+    RUBRICS[id as RubricId] || RUBRICS[DEFAULT_RUBRIC_ID];
+
+// Picks the first specialised rubric whose patterns match the job title. New-grad is checked
+// first because "Junior Software Engineer" should be reviewed as an entry-level resume, and
+// software engineering last because any "engineer" title matches it.
+export const detectRubric = (jobTitle: string): Rubric => {
+    const order: RubricId[] = ['new-grad', 'academic', 'data-science', 'design', 'sales', 'software-engineering'];
+    const match = order.find((id) => RUBRICS[id].titlePatterns.some((pattern) => pattern.test(jobTitle)));
+    return RUBRICS[match || DEFAULT_RUBRIC_ID];
+}
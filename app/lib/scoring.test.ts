@@ -0,0 +1,55 @@
+import {describe, expect, it} from "vitest";
+import {computeOverallScore, getOverallScore} from "~/lib/scoring";
+import {getRubric} from "~/lib/rubrics";
+
+const feedback = (scores: Record<'ATS' | 'toneAndStyle' | 'content' | 'structure' | 'skills', number>): Feedback => ({
+    overallScore: 50,
+    ATS: { score: scores.ATS, tips: [] },
+    toneAndStyle: { score: scores.toneAndStyle, tips: [] },
+    content: { score: scores.content, tips: [] },
+    structure: { score: scores.structure, tips: [] },
+    skills: { score: scores.skills, tips: [] },
+});
+
+const uneven = feedback({ ATS: 100, toneAndStyle: 40, content: 60, structure: 80, skills: 20 });
+
+describe('computeOverallScore', () => {
+    it('weights each category by the rubric and keeps the model score apart', () => {
+        const rubric = getRubric('software-engineering');
+        const totalWeight = Object.values(rubric.weights).reduce((sum, weight) => sum + weight, 0);
+        const expected = (['ATS', 'toneAndStyle', 'content', 'structure', 'skills'] as const)
+            .reduce((sum, category) => sum + uneven[category].score * rubric.weights[category] / totalWeight, 0);
+
+        const { score, modelScore, breakdown } = computeOverallScore(uneven, rubric);
+
+        expect(score).toBe(Math.round(expected));
+        expect(modelScore).toBe(50);
+        expect(breakdown.reduce((sum, item) => sum + item.weight, 0)).toBeCloseTo(1);
+    });
+
+    it('gives the same score under every rubric when all categories agree', () => {
+        const even = feedback({ ATS: 70, toneAndStyle: 70, content: 70, structure: 70, skills: 70 });
+
+        for (const id of ['general', 'design', 'sales', 'new-grad']) {
+            expect(computeOverallScore(even, getRubric(id)).score).toBe(70);
+        }
+    });
+
+    it('ranks the same feedback differently under different rubrics', () => {
+        const skillsHeavy = computeOverallScore(uneven, getRubric('software-engineering')).score;
+        const general = computeOverallScore(uneven, getRubric('general')).score;
+
+        expect(skillsHeavy).not.toBe(general);
+    });
+});
+
+describe('getOverallScore', () => {
+    it('is 0 for records that have not been analyzed', () => {
+        expect(getOverallScore({})).toBe(0);
+    });
+
+    it('falls back to the general rubric for unknown ids', () => {
+        expect(getOverallScore({ feedback: uneven, rubricId: 'unknown' as RubricId }))
+            .toBe(computeOverallScore(uneven, getRubric('general')).score);
+    });
+});
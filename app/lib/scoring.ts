@@ -0,0 +1,47 @@
+import {FEEDBACK_CATEGORIES, FEEDBACK_CATEGORY_LABELS, type FeedbackCategory} from "~/lib/feedback";
+import {getRubric} from "~/lib/rubrics";
+
+// The overall score shown in the app is computed from the five category scores using the
+// rubric's weights, instead of trusting the model's own overallScore.
+
+export interface ScoreBreakdownItem {
+    category: FeedbackCategory;
+    label: string;
+    score: number;
+    // Share of the overall score, 0 to 1
+    weight: number;
+    contribution: number;
+}
+
+export interface ComputedScore {
+    score: number;
+    // The model's own overall score, kept for comparison
+    modelScore: number;
+    breakdown: ScoreBreakdownItem[];
+}
+
+export const computeOverallScore = (feedback: Feedback, rubric: Rubric = getRubric()): ComputedScore => {
+    const totalWeight = FEEDBACK_CATEGORIES.reduce((sum, category) => sum + rubric.weights[category], 0) || 1;
+
+    const breakdown = FEEDBACK_CATEGORIES.map((category) => {
+        const score = feedback[category]?.score ?? 0;
+        const weight = rubric.weights[category] / totalWeight;
+        return {
+            category,
+            label: FEEDBACK_CATEGORY_LABELS[category],
+            score,
+            weight,
+            contribution: score * weight,
+        };
+    });
+
+    return {
+        score: Math.round(breakdown.reduce((sum, item) => sum + item.contribution, 0)),
+        modelScore: feedback.overallScore,
+        breakdown,
+    };
+}
+
+// Overall score for a stored record or analysis version, 0 while it has no feedback
+export const getOverallScore = ({ feedback, rubricId }: { feedback?: Feedback, rubricId?: RubricId }): number =>
+    feedback ? computeOverallScore(feedback, getRubric(rubricId)).score : 0;
@@ -0,0 +1,171 @@
+import type { ReactNode } from "react";
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import {
+  createServiceManager,
+  getConfiguredProvider,
+  ServiceProvider
+} from "./index";
+import type {
+  AuthService,
+  AuthUser,
+  FileStorageService,
+  KVService,
+  AIService,
+  ServiceManager
+} from "./index";
+import { withOperations } from "~/lib/operation";
+
+interface ServicesContextType extends ServiceManager {
+  provider: ServiceProvider;
+  user: AuthUser | null;
+  isAuthenticated: boolean;
+  signIn: () => Promise<void>;
+  signOut: () => Promise<void>;
+  refreshUser: () => Promise<void>;
+}
+
+// Stand-in services used until the configured provider has loaded
+const notReady = async () => ({ error: "Services are still loading" });
+
+const pendingAuth: AuthService = {
+  getUser: notReady,
+  isSignedIn: async () => false,
+  signIn: notReady,
+  signOut: notReady
+};
+
+const pendingFs: FileStorageService = {
+  upload: notReady,
+  read: notReady,
+  write: notReady,
+  delete: notReady,
+  list: notReady
+};
+
+const pendingKv: KVService = {
+  get: notReady,
+  set: notReady,
+  delete: notReady,
+  list: notReady,
+  listValues: notReady,
+  flush: notReady
+};
+
+const pendingAi: AIService = {
+  supportsChat: false,
+  supportsFileParts: false,
+  chat: notReady,
+  feedback: notReady,
+  img2txt: notReady
+};
+
+const ServicesContext = createContext<ServicesContextType | undefined>(undefined);
+
+export const useServices = () => {
+  const context = useContext(ServicesContext);
+  if (!context) {
+    throw new Error("useServices must be used within a ServicesProvider");
+  }
+  return context;
+};
+
+interface ServicesProviderProps {
+  children: ReactNode;
+  provider?: ServiceProvider;
+}
+
+export const ServicesProvider = ({ children, provider = getConfiguredProvider() }: ServicesProviderProps) => {
+  const [manager, setManager] = useState<ServiceManager | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
+
+  const loadUser = async (services: ServiceManager) => {
+    const signedIn = await services.auth.isSignedIn();
+    if (!signedIn) {
+      setUser(null);
+      return;
+    }
+
+    const result = await services.auth.getUser();
+    if (result.error) setError(result.error);
+    setUser(result.data || null);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const services = await createServiceManager(provider);
+        await services.init?.();
+        if (cancelled) return;
+
+        setManager(services);
+        if (services.error) setError(services.error);
+        await loadUser(services);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load services");
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider]);
+
+  const runAuthAction = useCallback(async (action: (services: ServiceManager) => Promise<{ error?: string }>) => {
+    if (!manager) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await action(manager);
+      if (result.error) setError(result.error);
+      await loadUser(manager);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [manager]);
+
+  const signIn = useCallback(() => runAuthAction(services => services.auth.signIn()), [runAuthAction]);
+  const signOut = useCallback(() => runAuthAction(services => services.auth.signOut()), [runAuthAction]);
+  const refreshUser = useCallback(() => runAuthAction(async () => ({})), [runAuthAction]);
+
+  // Every fs/kv/ai call goes through the shared timeout and retry runner
+  const operations = useMemo(() => (manager ? withOperations(manager) : null), [manager]);
+
+  const clearError = useCallback(() => {
+    manager?.clearError();
+    setError(null);
+  }, [manager]);
+
+  return (
+    <ServicesContext.Provider
+      value={{
+        provider,
+        auth: manager?.auth || pendingAuth,
+        fs: operations?.fs || pendingFs,
+        kv: operations?.kv || pendingKv,
+        ai: operations?.ai || pendingAi,
+        isLoading,
+        error,
+        clearError,
+        user,
+        isAuthenticated: !!user,
+        signIn,
+        signOut,
+        refreshUser
+      }}
+    >
+      {children}
+    </ServicesContext.Provider>
+  );
+};
@@ -0,0 +1,205 @@
+import type {
+  AuthService,
+  FileStorageService,
+  KVService,
+  AIService,
+  ServiceManager,
+  ServiceResult
+} from "./index";
+import { createServiceManager, ServiceProvider } from "./index";
+
+// Ordered fallback chain of providers for each service slot
+export interface HybridConfig {
+  auth: ServiceProvider[];
+  fs: ServiceProvider[];
+  kv: ServiceProvider[];
+  ai: ServiceProvider[];
+}
+
+const DEFAULT_HYBRID_CONFIG: HybridConfig = {
+  auth: [ServiceProvider.PUTER],
+  fs: [ServiceProvider.PUTER],
+  kv: [ServiceProvider.LOCAL],
+  ai: [ServiceProvider.OPENAI]
+};
+
+// Parses a comma-separated provider list such as "openai,local"
+const parseChain = (value: string | undefined, fallback: ServiceProvider[]): ServiceProvider[] => {
+  if (!value) return fallback;
+
+  const providers = Object.values(ServiceProvider) as string[];
+  const chain = value
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(entry => {
+      if (entry === ServiceProvider.HYBRID || !providers.includes(entry)) {
+        console.warn(`Ignoring unsupported hybrid provider "${entry}"`);
+        return false;
+      }
+      return true;
+    }) as ServiceProvider[];
+
+  return chain.length ? chain : fallback;
+};
+
+// Reads the per-slot chains from VITE_HYBRID_* environment variables
+export const getHybridConfig = (): HybridConfig => ({
+  auth: parseChain(import.meta.env.VITE_HYBRID_AUTH, DEFAULT_HYBRID_CONFIG.auth),
+  fs: parseChain(import.meta.env.VITE_HYBRID_FS, DEFAULT_HYBRID_CONFIG.fs),
+  kv: parseChain(import.meta.env.VITE_HYBRID_KV, DEFAULT_HYBRID_CONFIG.kv),
+  ai: parseChain(import.meta.env.VITE_HYBRID_AI, DEFAULT_HYBRID_CONFIG.ai)
+});
+
+// Tries each service in order, returning the first result without an error. With `skipMisses`,
+// a result without data (e.g. a key the service does not have) also moves on to the next one.
+const firstSuccessful = async <S, T>(
+  chain: S[],
+  call: (service: S) => Promise<ServiceResult<T>>,
+  { skipMisses = false }: { skipMisses?: boolean } = {}
+): Promise<ServiceResult<T>> => {
+  const errors: string[] = [];
+  let miss: ServiceResult<T> | null = null;
+
+  for (const [index, service] of chain.entries()) {
+    let error: string;
+    try {
+      const result = await call(service);
+      if (!result.error) {
+        if (!(skipMisses && result.data == null)) return result;
+        miss ??= result;
+        continue;
+      }
+      error = result.error;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    errors.push(error);
+    if (index < chain.length - 1) {
+      console.warn(`Service call failed, trying next provider: ${error}`);
+    }
+  }
+
+  // Not found anywhere is a miss, not an error, as long as one provider could be asked
+  if (miss) return miss;
+  return { error: errors.join("; ") || "No provider configured" };
+};
+
+// Deletes run against every provider, because reads fall through the chain and would otherwise
+// find a copy left in a later backend. The primary's result is the one reported.
+const everyProvider = async <S, T>(
+  chain: S[],
+  call: (service: S) => Promise<ServiceResult<T>>
+): Promise<ServiceResult<T>> => {
+  const [first, ...rest] = await Promise.all(chain.map(service => call(service)));
+  rest
+    .filter(result => result.error)
+    .forEach(result => console.warn(`Service call failed on a fallback provider: ${result.error}`));
+  return first || { error: "No provider configured" };
+};
+
+const composeAuth = (chain: AuthService[]): AuthService => ({
+  getUser: () => firstSuccessful(chain, service => service.getUser()),
+  isSignedIn: async () => {
+    for (const service of chain) {
+      if (await service.isSignedIn()) return true;
+    }
+    return false;
+  },
+  signIn: () => firstSuccessful(chain, service => service.signIn()),
+  signOut: () => firstSuccessful(chain, service => service.signOut())
+});
+
+// Writes only go to the first provider of a chain. Falling back on a failed write would hide the
+// failure and leave the data in a backend that later reads do not check first.
+const composeFs = (chain: FileStorageService[]): FileStorageService => ({
+  upload: files => chain[0].upload(files),
+  read: path => firstSuccessful(chain, service => service.read(path), { skipMisses: true }),
+  write: (path, data) => chain[0].write(path, data),
+  delete: path => everyProvider(chain, service => service.delete(path)),
+  list: path => firstSuccessful(chain, service => service.list(path))
+});
+
+const composeKv = (chain: KVService[]): KVService => ({
+  get: key => firstSuccessful(chain, service => service.get(key), { skipMisses: true }),
+  set: (key, value) => chain[0].set(key, value),
+  delete: key => everyProvider(chain, service => service.delete(key)),
+  list: pattern => firstSuccessful(chain, service => service.list(pattern)),
+  listValues: pattern => firstSuccessful(chain, service => service.listValues(pattern)),
+  flush: () => everyProvider(chain, service => service.flush())
+});
+
+// Each AI provider resolves a stored resume path against its own storage, so the path is only
+// passed to the provider that is also the primary file store. The others get the file itself,
+// read through the composed file storage.
+const composeAi = (chain: AIService[], fs: FileStorageService, ownsFiles: boolean[]): AIService => {
+  const loadFile = async (path: string): Promise<ServiceResult<File>> => {
+    const { data, error } = await fs.read(path);
+    if (!data) return { error: error || "Failed to read resume" };
+    return { data: new File([data], path.split("/").pop() || "resume", { type: data.type }) };
+  };
+
+  return {
+    defaultModel: chain[0]?.defaultModel,
+    supportsChat: chain.some(service => service.supportsChat),
+    // Chat falls through the chain, so a file part is only sent when every provider can read the path
+    supportsFileParts: chain.every((service, index) => service.supportsFileParts && ownsFiles[index]),
+    chat: (prompt, options) => firstSuccessful(chain, service => service.chat(prompt, options)),
+    feedback: (file, message, options) => {
+      let loaded: Promise<ServiceResult<File>> | null = null;
+
+      return firstSuccessful(chain.map((service, index) => ({ service, index })), async ({ service, index }) => {
+        if (typeof file !== "string" || ownsFiles[index]) {
+          return service.feedback(file, message, options);
+        }
+
+        loaded ??= loadFile(file);
+        const { data, error } = await loaded;
+        if (!data) return { error };
+        return service.feedback(data, message, options);
+      });
+    },
+    img2txt: image => firstSuccessful(chain, service => service.img2txt(image))
+  };
+};
+
+// Create Hybrid Service Manager
+export const createHybridServices = async (config: HybridConfig = getHybridConfig()): Promise<ServiceManager> => {
+  const providers = [...new Set([...config.auth, ...config.fs, ...config.kv, ...config.ai])];
+  const managers = new Map<ServiceProvider, ServiceManager>();
+
+  for (const provider of providers) {
+    managers.set(provider, await createServiceManager(provider));
+  }
+
+  const pick = <K extends "auth" | "fs" | "kv" | "ai">(slot: K): ServiceManager[K][] =>
+    config[slot].map(provider => managers.get(provider)![slot]);
+
+  const fs = composeFs(pick("fs"));
+
+  const manager: ServiceManager = {
+    auth: composeAuth(pick("auth")),
+    fs,
+    kv: composeKv(pick("kv")),
+    ai: composeAi(pick("ai"), fs, config.ai.map(provider => provider === config.fs[0])),
+    isLoading: true,
+    error: null,
+    clearError: () => {
+      manager.error = null;
+    },
+    init: async () => {
+      // A provider that fails to start is left in the chain; its calls error out and fall through
+      const results = await Promise.allSettled(
+        [...managers.values()].map(service => service.init?.())
+      );
+      const failures = results
+        .filter((result): result is PromiseRejectedResult => result.status === "rejected")
+        .map(result => (result.reason instanceof Error ? result.reason.message : String(result.reason)));
+
+      manager.error = failures.length ? failures.join("; ") : null;
+      manager.isLoading = false;
+    }
+  };
+
+  return manager;
+};
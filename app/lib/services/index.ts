@@ -4,8 +4,12 @@
 export interface ServiceResult<T> {
   data?: T;
   error?: string;
+  // Set when the call went through the operation runner (see ~/lib/operation)
+  errorKind?: ServiceErrorKind;
 }
 
+export type ServiceErrorKind = "timeout" | "cancelled" | "auth" | "quota" | "parse" | "network" | "unknown";
+
 // Auth Service
 export interface AuthUser {
   id: string;
@@ -25,7 +29,8 @@ export interface FileItem {
   id: string;
   name: string;
   path: string;
-  url: string;
+  // Direct read URL, for providers that can hand one out
+  url?: string;
   size?: number;
   type?: string;
 }
@@ -43,7 +48,9 @@ export interface KVService {
   get: (key: string) => Promise<ServiceResult<string | null>>;
   set: (key: string, value: string) => Promise<ServiceResult<boolean>>;
   delete: (key: string) => Promise<ServiceResult<boolean>>;
-  list: (pattern: string, returnValues?: boolean) => Promise<ServiceResult<string[]>>;
+  list: (pattern: string) => Promise<ServiceResult<string[]>>;
+  // Like list, but returns each matching key together with its value
+  listValues: (pattern: string) => Promise<ServiceResult<KVItem[]>>;
   flush: () => Promise<ServiceResult<boolean>>;
 }
 
@@ -59,14 +66,39 @@ export interface AIResponse {
   };
 }
 
+export interface AIChatOptions {
+  // Aborted when the caller cancels or the attempt times out
+  signal?: AbortSignal;
+  // Generation settings; each falls back to the provider's default when omitted
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+}
+
+export interface AIFeedbackOptions extends AIChatOptions {
+  // Called with the full response text received so far; providers that cannot stream call it once at the end
+  onProgress?: (text: string) => void;
+  // The job the resume is reviewed against, for providers that review without reading the prompt
+  jobTitle?: string;
+  jobDescription?: string;
+}
+
 export interface AIService {
+  // Model used when a request does not name one
+  defaultModel?: string;
+  // False when the provider can only produce structured feedback, so features built on chat are hidden
+  supportsChat: boolean;
+  // True when chat messages may hold `{ type: 'file', puter_path }` parts that the provider reads
+  // from its own storage; other providers are sent the resume text instead
+  supportsFileParts: boolean;
   chat: (
     prompt: string | AIMessage[],
-    options?: any
+    options?: AIChatOptions
   ) => Promise<ServiceResult<AIResponse>>;
   feedback: (
     file: File | string,
-    message: string
+    message: string,
+    options?: AIFeedbackOptions
   ) => Promise<ServiceResult<AIResponse>>;
   img2txt: (image: string | File | Blob) => Promise<ServiceResult<string>>;
 }
@@ -80,6 +112,8 @@ export interface ServiceManager {
   isLoading: boolean;
   error: string | null;
   clearError: () => void;
+  // Resolves once the backend is ready to serve requests (e.g. a script tag has loaded)
+  init?: () => Promise<void>;
 }
 
 // Service Provider Types
@@ -91,13 +125,27 @@ export enum ServiceProvider {
   HYBRID = 'hybrid'
 }
 
+// Reads the provider to use from VITE_SERVICE_PROVIDER, falling back to Puter
+export const getConfiguredProvider = (): ServiceProvider => {
+  const configured = import.meta.env.VITE_SERVICE_PROVIDER as string | undefined;
+  const providers = Object.values(ServiceProvider) as string[];
+
+  if (configured && providers.includes(configured)) {
+    return configured as ServiceProvider;
+  }
+  if (configured) {
+    console.warn(`Unknown service provider "${configured}", falling back to ${ServiceProvider.PUTER}`);
+  }
+  return ServiceProvider.PUTER;
+};
+
 // Service Factory
-export const createServiceManager = (provider: ServiceProvider): ServiceManager => {
+export const createServiceManager = async (provider: ServiceProvider): Promise<ServiceManager> => {
   switch (provider) {
     case ServiceProvider.PUTER:
       return import('./puter').then(module => module.createPuterServices());
     case ServiceProvider.FIREBASE:
-      return import('./firebase').then(module => module.createFirebaseServices());
+      throw new Error('The Firebase service provider is not implemented yet');
     case ServiceProvider.LOCAL:
       return import('./local').then(module => module.createLocalServices());
     case ServiceProvider.OPENAI:
@@ -0,0 +1,593 @@
+import type {
+  AuthService,
+  FileStorageService,
+  KVService,
+  AIService,
+  ServiceManager,
+  ServiceResult,
+  AuthUser,
+  FileItem,
+  AIResponse,
+  AIFeedbackOptions
+} from "./index";
+import { analyzeATS, detectSections, tokenize } from "~/lib/ats";
+import { extractDocumentText } from "~/lib/ingest";
+import { generateUUID } from "~/lib/utils";
+
+// IndexedDB layout used by the local provider
+const DB_NAME = "resumind-local";
+const DB_VERSION = 1;
+const FILES_STORE = "files";
+const KV_STORE = "kv";
+
+// localStorage key holding the single local user's session flag
+const AUTH_STORAGE_KEY = "resumind:local-auth";
+
+const LOCAL_USER: AuthUser = {
+  id: "local-user",
+  name: "Local User",
+  email: ""
+};
+
+interface StoredFile {
+  path: string;
+  name: string;
+  blob: Blob;
+  size: number;
+  type: string;
+  created: number;
+}
+
+interface StoredKV {
+  key: string;
+  value: string;
+}
+
+// Helper to check whether IndexedDB can be used (it is missing during SSR)
+const hasIndexedDB = (): boolean =>
+  typeof window !== "undefined" && typeof window.indexedDB !== "undefined";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(FILES_STORE)) {
+        db.createObjectStore(FILES_STORE, { keyPath: "path" });
+      }
+      if (!db.objectStoreNames.contains(KV_STORE)) {
+        db.createObjectStore(KV_STORE, { keyPath: "key" });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error("Failed to open IndexedDB"));
+    };
+  });
+
+  return dbPromise;
+};
+
+// Runs a single request against an object store and resolves with its result
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () =>
+      reject(transaction.error || new Error("IndexedDB transaction failed"));
+    transaction.onabort = () =>
+      reject(transaction.error || new Error("IndexedDB transaction aborted"));
+  });
+};
+
+// Converts a Puter-style glob pattern (e.g. "resume:*") into a RegExp
+const patternToRegExp = (pattern: string): RegExp => {
+  const escaped = pattern
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`);
+};
+
+const normalizeDir = (path: string): string => {
+  const trimmed = path.replace(/^\.\/?/, "").replace(/^\/+/, "").replace(/\/+$/, "");
+  return trimmed ? `/${trimmed}/` : "/";
+};
+
+const toFileItem = (file: StoredFile): FileItem => ({
+  id: file.path,
+  name: file.name,
+  path: file.path,
+  size: file.size,
+  type: file.type
+});
+
+// Local Auth Service Implementation (single user, no credentials)
+class LocalAuthService implements AuthService {
+  async getUser(): Promise<ServiceResult<AuthUser>> {
+    if (!(await this.isSignedIn())) {
+      return { error: "Not signed in" };
+    }
+    return { data: LOCAL_USER };
+  }
+
+  async isSignedIn(): Promise<boolean> {
+    if (typeof window === "undefined") return false;
+    return window.localStorage.getItem(AUTH_STORAGE_KEY) === "true";
+  }
+
+  async signIn(): Promise<ServiceResult<void>> {
+    if (typeof window === "undefined") {
+      return { error: "Local storage not available" };
+    }
+    window.localStorage.setItem(AUTH_STORAGE_KEY, "true");
+    return { data: undefined };
+  }
+
+  async signOut(): Promise<ServiceResult<void>> {
+    if (typeof window === "undefined") {
+      return { error: "Local storage not available" };
+    }
+    window.localStorage.removeItem(AUTH_STORAGE_KEY);
+    return { data: undefined };
+  }
+}
+
+// Local File Storage Service Implementation (IndexedDB)
+class LocalFileStorageService implements FileStorageService {
+  async upload(files: File[] | Blob[]): Promise<ServiceResult<FileItem>> {
+    if (!hasIndexedDB()) {
+      return { error: "IndexedDB not available" };
+    }
+
+    const file = files[0];
+    if (!file) {
+      return { error: "No file provided for upload" };
+    }
+
+    try {
+      const name = file instanceof File ? file.name : `upload-${Date.now()}`;
+      const stored: StoredFile = {
+        path: `/${generateUUID()}/${name}`,
+        name,
+        blob: file,
+        size: file.size,
+        type: file.type,
+        created: Date.now()
+      };
+
+      await runRequest(FILES_STORE, "readwrite", store => store.put(stored));
+      return { data: toFileItem(stored) };
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "Upload failed"
+      };
+    }
+  }
+
+  async read(path: string): Promise<ServiceResult<Blob>> {
+    if (!hasIndexedDB()) {
+      return { error: "IndexedDB not available" };
+    }
+
+    try {
+      const stored = await runRequest<StoredFile | undefined>(
+        FILES_STORE,
+        "readonly",
+        store => store.get(path)
+      );
+      if (!stored) {
+        return { error: `File not found: ${path}` };
+      }
+      return { data: stored.blob };
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "Read failed"
+      };
+    }
+  }
+
+  async write(path: string, data: string | File | Blob): Promise<ServiceResult<FileItem>> {
+    if (!hasIndexedDB()) {
+      return { error: "IndexedDB not available" };
+    }
+
+    try {
+      const blob = typeof data === "string" ? new Blob([data], { type: "text/plain" }) : data;
+      const normalizedPath = path.startsWith("/") ? path : `/${path.replace(/^\.\//, "")}`;
+      const stored: StoredFile = {
+        path: normalizedPath,
+        name: normalizedPath.split("/").pop() || normalizedPath,
+        blob,
+        size: blob.size,
+        type: blob.type,
+        created: Date.now()
+      };
+
+      await runRequest(FILES_STORE, "readwrite", store => store.put(stored));
+      return { data: toFileItem(stored) };
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "Write failed"
+      };
+    }
+  }
+
+  async delete(path: string): Promise<ServiceResult<void>> {
+    if (!hasIndexedDB()) {
+      return { error: "IndexedDB not available" };
+    }
+
+    try {
+      await runRequest(FILES_STORE, "readwrite", store => store.delete(path));
+      return { data: undefined };
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "Delete failed"
+      };
+    }
+  }
+
+  async list(path: string): Promise<ServiceResult<FileItem[]>> {
+    if (!hasIndexedDB()) {
+      return { error: "IndexedDB not available" };
+    }
+
+    try {
+      const dir = normalizeDir(path);
+      const files = await runRequest<StoredFile[]>(
+        FILES_STORE,
+        "readonly",
+        store => store.getAll()
+      );
+
+      return {
+        data: files
+          .filter(file => file.path.startsWith(dir))
+          .map(toFileItem)
+      };
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "List operation failed"
+      };
+    }
+  }
+}
+
+// Local Key-Value Store Service Implementation (IndexedDB)
+class LocalKVService implements KVService {
+  async get(key: string): Promise<ServiceResult<string | null>> {
+    if (!hasIndexedDB()) {
+      return { error: "IndexedDB not available" };
+    }
+
+    try {
+      const entry = await runRequest<StoredKV | undefined>(
+        KV_STORE,
+        "readonly",
+        store => store.get(key)
+      );
+      return { data: entry ? entry.value : null };
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "Get operation failed"
+      };
+    }
+  }
+
+  async set(key: string, value: string): Promise<ServiceResult<boolean>> {
+    if (!hasIndexedDB()) {
+      return { error: "IndexedDB not available" };
+    }
+
+    try {
+      await runRequest(KV_STORE, "readwrite", store => store.put({ key, value }));
+      return { data: true };
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "Set operation failed"
+      };
+    }
+  }
+
+  async delete(key: string): Promise<ServiceResult<boolean>> {
+    if (!hasIndexedDB()) {
+      return { error: "IndexedDB not available" };
+    }
+
+    try {
+      await runRequest(KV_STORE, "readwrite", store => store.delete(key));
+      return { data: true };
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "Delete operation failed"
+      };
+    }
+  }
+
+  // Entries whose key matches a Puter-style glob pattern such as "resume:*"
+  private async match(pattern: string): Promise<StoredKV[]> {
+    const matcher = patternToRegExp(pattern);
+    const entries = await runRequest<StoredKV[]>(
+      KV_STORE,
+      "readonly",
+      store => store.getAll()
+    );
+    return entries.filter(entry => matcher.test(entry.key));
+  }
+
+  async list(pattern: string): Promise<ServiceResult<string[]>> {
+    if (!hasIndexedDB()) {
+      return { error: "IndexedDB not available" };
+    }
+
+    try {
+      const matches = await this.match(pattern);
+      return { data: matches.map(entry => entry.key) };
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "List operation failed"
+      };
+    }
+  }
+
+  async listValues(pattern: string): Promise<ServiceResult<KVItem[]>> {
+    if (!hasIndexedDB()) {
+      return { error: "IndexedDB not available" };
+    }
+
+    try {
+      const matches = await this.match(pattern);
+      return { data: matches.map(({ key, value }) => ({ key, value })) };
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "List operation failed"
+      };
+    }
+  }
+
+  async flush(): Promise<ServiceResult<boolean>> {
+    if (!hasIndexedDB()) {
+      return { error: "IndexedDB not available" };
+    }
+
+    try {
+      await runRequest(KV_STORE, "readwrite", store => store.clear());
+      return { data: true };
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "Flush operation failed"
+      };
+    }
+  }
+}
+
+// Heuristic resume review used when no model is available
+const ACTION_VERBS = [
+  "led", "built", "designed", "developed", "implemented", "launched", "managed",
+  "created", "improved", "increased", "reduced", "delivered", "owned", "drove",
+  "optimized", "automated", "migrated", "mentored", "architected", "shipped"
+];
+
+const clampScore = (score: number): number =>
+  Math.max(0, Math.min(100, Math.round(score)));
+
+type Tip = { type: "good" | "improve"; tip: string; explanation: string };
+
+const tip = (good: boolean, goodTip: string, improveTip: string, explanation: string): Tip => ({
+  type: good ? "good" : "improve",
+  tip: good ? goodTip : improveTip,
+  explanation
+});
+
+const reviewResumeText = (text: string, jobDescription: string): Feedback => {
+  const words = tokenize(text);
+  const wordCount = text.split(/\s+/).filter(Boolean).length;
+  const lines = text.split("\n").map(line => line.trim()).filter(Boolean);
+  const sections = detectSections(text);
+  const bulletLines = lines.filter(line => /^[•\-*▪◦●]/.test(line));
+  const metricLines = lines.filter(line => /\d+%|\$\d|\b\d{2,}\b/.test(line));
+  const actionVerbCount = words.filter(word => ACTION_VERBS.includes(word)).length;
+  const firstPersonCount = (text.match(/\b(i|me|my)\b/gi) || []).length;
+  const hasEmail = /[\w.+-]+@[\w-]+\.[\w.]+/.test(text);
+  const hasPhone = /\+?\d[\d\s().-]{7,}\d/.test(text);
+
+  const ats = analyzeATS(text, jobDescription);
+  const matched = ats.matchedKeywords;
+  const missing = ats.missingKeywords;
+  const keywords = [...matched, ...missing];
+  const coverage = ats.hasJobDescription ? ats.keywordCoverage : 0.5;
+
+  const atsScore = clampScore(
+    30 + coverage * 40 + (hasEmail ? 10 : 0) + (hasPhone ? 5 : 0) + Math.min(sections.length, 3) * 5
+  );
+  const toneScore = clampScore(55 + Math.min(actionVerbCount, 10) * 4 - Math.min(firstPersonCount, 10) * 3);
+  const contentScore = clampScore(
+    40 + Math.min(metricLines.length, 8) * 5 + (wordCount >= 250 && wordCount <= 900 ? 20 : 0)
+  );
+  const structureScore = clampScore(35 + sections.length * 10 + (bulletLines.length >= 5 ? 15 : 0));
+  const skillsScore = clampScore(
+    40 + (sections.includes("skills") ? 20 : 0) + coverage * 40
+  );
+
+  return {
+    overallScore: clampScore((atsScore + toneScore + contentScore + structureScore + skillsScore) / 5),
+    ATS: {
+      score: atsScore,
+      tips: [
+        {
+          type: hasEmail && hasPhone ? "good" : "improve",
+          tip: hasEmail && hasPhone
+            ? "Contact details are easy for parsers to find"
+            : "Add a plain-text email address and phone number"
+        },
+        {
+          type: coverage >= 0.6 ? "good" : "improve",
+          tip: keywords.length
+            ? `Matches ${matched.length} of ${keywords.length} job description keywords`
+            : "Provide a job description to check keyword coverage"
+        },
+        ...(missing.length
+          ? [{ type: "improve" as const, tip: `Consider covering: ${missing.slice(0, 6).join(", ")}` }]
+          : [])
+      ]
+    },
+    toneAndStyle: {
+      score: toneScore,
+      tips: [
+        tip(
+          actionVerbCount >= 5,
+          "Strong action verbs",
+          "Use more action verbs",
+          `Found ${actionVerbCount} bullet-opening action verbs such as "led" or "built".`
+        ),
+        tip(
+          firstPersonCount <= 2,
+          "Consistent third-person voice",
+          "Drop first-person pronouns",
+          `Found ${firstPersonCount} uses of "I", "me" or "my"; resumes usually omit them.`
+        )
+      ]
+    },
+    content: {
+      score: contentScore,
+      tips: [
+        tip(
+          metricLines.length >= 4,
+          "Quantified achievements",
+          "Quantify your impact",
+          `${metricLines.length} lines include numbers or percentages; aim for measurable results in most bullets.`
+        ),
+        tip(
+          wordCount >= 250 && wordCount <= 900,
+          "Appropriate length",
+          wordCount < 250 ? "Add more detail" : "Tighten the resume",
+          `The resume has roughly ${wordCount} words; 250–900 is typical for one to two pages.`
+        )
+      ]
+    },
+    structure: {
+      score: structureScore,
+      tips: [
+        tip(
+          sections.length >= 4,
+          "Clear section headings",
+          "Add standard section headings",
+          sections.length
+            ? `Detected sections: ${sections.join(", ")}.`
+            : "No standard sections (Experience, Education, Skills) were detected."
+        ),
+        tip(
+          bulletLines.length >= 5,
+          "Scannable bullet points",
+          "Use bullet points",
+          `Found ${bulletLines.length} bulleted lines; bullets make experience easier to scan.`
+        )
+      ]
+    },
+    skills: {
+      score: skillsScore,
+      tips: [
+        tip(
+          sections.includes("skills"),
+          "Dedicated skills section",
+          "Add a skills section",
+          "A dedicated skills section helps both recruiters and ATS match your profile."
+        ),
+        tip(
+          coverage >= 0.6,
+          "Skills align with the job",
+          "Align skills with the job",
+          keywords.length
+            ? `Matched keywords: ${matched.join(", ") || "none"}.`
+            : "No job description was provided to compare against."
+        )
+      ]
+    }
+  };
+};
+
+const toAIResponse = (content: string): AIResponse => ({
+  message: { content }
+});
+
+// Local AI Service Implementation (deterministic, no network)
+class LocalAIService implements AIService {
+  readonly defaultModel = "local-heuristic";
+  // Only the rule-based review is available offline
+  readonly supportsChat = false;
+  readonly supportsFileParts = false;
+
+  constructor(private readonly fs: LocalFileStorageService) {}
+
+  async chat(): Promise<ServiceResult<AIResponse>> {
+    return { error: "Free-form chat is not available with the local AI provider" };
+  }
+
+  async feedback(
+    file: File | string,
+    message: string,
+    options: AIFeedbackOptions = {}
+  ): Promise<ServiceResult<AIResponse>> {
+    try {
+      let blob: Blob;
+      if (typeof file === "string") {
+        const readResult = await this.fs.read(file);
+        if (readResult.error || !readResult.data) {
+          return { error: readResult.error || "Failed to read resume" };
+        }
+        blob = readResult.data;
+      } else {
+        blob = file;
+      }
+
+      const text = await extractDocumentText(blob, typeof file === "string" ? file : file.name);
+      // The rule-based review ignores the prompt and only needs the job description
+      const content = JSON.stringify(reviewResumeText(text, options.jobDescription || ""));
+      options.onProgress?.(content);
+      return { data: toAIResponse(content) };
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "Feedback operation failed"
+      };
+    }
+  }
+
+  async img2txt(image: string | File | Blob): Promise<ServiceResult<string>> {
+    return { error: "Image-to-text is not available with the local AI provider" };
+  }
+}
+
+// Create Local Service Manager
+export const createLocalServices = (): ServiceManager => {
+  const fileStorageService = new LocalFileStorageService();
+
+  const manager: ServiceManager = {
+    auth: new LocalAuthService(),
+    fs: fileStorageService,
+    kv: new LocalKVService(),
+    ai: new LocalAIService(fileStorageService),
+    isLoading: false,
+    error: hasIndexedDB() ? null : "IndexedDB not available",
+    clearError: () => {
+      manager.error = null;
+    }
+  };
+
+  return manager;
+};
@@ -0,0 +1,310 @@
+import type {
+  AIService,
+  FileStorageService,
+  ServiceManager,
+  ServiceResult,
+  AIMessage,
+  AIResponse,
+  AIChatOptions,
+  AIFeedbackOptions,
+  ServiceErrorKind
+} from "./index";
+import { createLocalServices } from "./local";
+import { detectDocumentFormat, extractDocumentText } from "~/lib/ingest";
+import { convertPdfToImage } from "~/lib/pdf2img";
+import { blobToDataUrl } from "~/lib/utils";
+import { getOpenAIApiKey } from "~/lib/settings";
+
+// How the resume is attached to the feedback request
+export type OpenAIInputMode = "text" | "images";
+
+export interface OpenAIConfig {
+  baseUrl: string;
+  model: string;
+  // Falls back to the key entered on the settings page
+  apiKey?: string;
+  inputMode: OpenAIInputMode;
+}
+
+interface OpenAIChatMessage {
+  role: string;
+  content: string | { type: string; [key: string]: any }[];
+}
+
+interface OpenAIChatCompletion {
+  choices?: {
+    message?: {
+      role: string;
+      content: string | null;
+    };
+  }[];
+  error?: { message?: string };
+}
+
+interface OpenAIChatCompletionChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+    };
+  }[];
+}
+
+const DEFAULT_BASE_URL = "http://localhost:8080/v1";
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+// Reads the endpoint settings from VITE_OPENAI_* environment variables. Vite inlines these into
+// the client bundle, so the API key is never read from them: it comes from the settings page,
+// or the base URL points at a proxy that adds it on the server.
+export const getOpenAIConfig = (): OpenAIConfig => ({
+  baseUrl: import.meta.env.VITE_OPENAI_BASE_URL || DEFAULT_BASE_URL,
+  model: import.meta.env.VITE_OPENAI_MODEL || DEFAULT_MODEL,
+  inputMode: import.meta.env.VITE_OPENAI_INPUT_MODE === "images" ? "images" : "text"
+});
+
+// Maps HTTP failures onto the operation runner's error kinds
+const statusErrorKind = (status: number): ServiceErrorKind => {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 429) return "quota";
+  if (status >= 500 || status === 408) return "network";
+  return "unknown";
+};
+
+// Converts the shared message shape into OpenAI chat-completions messages
+const toOpenAIMessages = (prompt: string | AIMessage[]): OpenAIChatMessage[] => {
+  if (typeof prompt === "string") {
+    return [{ role: "user", content: prompt }];
+  }
+
+  return prompt.map(message => {
+    if (typeof message.content === "string") {
+      return { role: message.role, content: message.content };
+    }
+
+    // Puter file references have no equivalent here, so only text parts are forwarded
+    const parts = message.content
+      .filter(part => part.type !== "file")
+      .map(part => (part.type === "text" ? { type: "text", text: part.text || "" } : part));
+    return { role: message.role, content: parts };
+  });
+};
+
+// OpenAI-compatible AI Service Implementation
+export class OpenAIAIService implements AIService {
+  constructor(
+    private readonly config: OpenAIConfig,
+    private readonly fs: FileStorageService
+  ) {}
+
+  readonly supportsChat = true;
+  readonly supportsFileParts = false;
+
+  get defaultModel(): string {
+    return this.config.model;
+  }
+
+  private async complete(
+    messages: OpenAIChatMessage[],
+    options: AIChatOptions = {},
+    onProgress?: (text: string) => void
+  ): Promise<ServiceResult<AIResponse>> {
+    const apiKey = this.config.apiKey || getOpenAIApiKey();
+
+    try {
+      const response = await fetch(`${this.config.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: options.model || this.config.model,
+          messages,
+          ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+          ...(options.max_tokens !== undefined ? { max_tokens: options.max_tokens } : {}),
+          ...(onProgress ? { stream: true } : {})
+        }),
+        signal: options.signal
+      });
+
+      // Some OpenAI-compatible servers ignore `stream: true` and answer with a plain JSON body
+      const isEventStream = (response.headers.get("content-type") || "").includes("text/event-stream");
+      if (onProgress && response.ok && response.body && isEventStream) {
+        const content = await this.readStream(response.body, onProgress);
+        if (!content) {
+          return { error: "Chat completion stream returned no content", errorKind: "parse" };
+        }
+        return { data: { message: { content } } };
+      }
+
+      const body = (await response.json().catch(() => ({}))) as OpenAIChatCompletion;
+      if (!response.ok) {
+        const errorKind = statusErrorKind(response.status);
+        return {
+          error: errorKind === "auth" && !apiKey
+            ? "The AI endpoint needs an API key. Add one on the settings page."
+            : body.error?.message || `Chat completion failed with status ${response.status}`,
+          errorKind
+        };
+      }
+
+      const content = body.choices?.[0]?.message?.content;
+      if (typeof content !== "string" || !content) {
+        return { error: "Chat completion returned no content", errorKind: "parse" };
+      }
+
+      onProgress?.(content);
+      return { data: { message: { content } } };
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") {
+        return { error: "AI request was cancelled", errorKind: "cancelled" };
+      }
+      return {
+        error: err instanceof Error ? err.message : "Chat operation failed"
+      };
+    }
+  }
+
+  // Reads a server-sent events body, reporting the accumulated content after each delta
+  private async readStream(body: ReadableStream<Uint8Array>, onProgress: (text: string) => void): Promise<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let content = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !data || data === "[DONE]") continue;
+
+        try {
+          const chunk = JSON.parse(data) as OpenAIChatCompletionChunk;
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            onProgress(content);
+          }
+        } catch {
+          // Ignore keep-alive comments and partial lines
+        }
+      }
+    }
+
+    return content;
+  }
+
+  private async resolveFile(file: File | string): Promise<ServiceResult<File>> {
+    if (typeof file !== "string") {
+      return { data: file };
+    }
+
+    const readResult = await this.fs.read(file);
+    if (readResult.error || !readResult.data) {
+      return { error: readResult.error || "Failed to read resume" };
+    }
+
+    const name = file.split("/").pop() || "resume.pdf";
+    return { data: new File([readResult.data], name, { type: readResult.data.type }) };
+  }
+
+  async chat(
+    prompt: string | AIMessage[],
+    options: AIChatOptions = {}
+  ): Promise<ServiceResult<AIResponse>> {
+    const { signal, model, temperature, max_tokens } = options;
+    return this.complete(toOpenAIMessages(prompt), { signal, model, temperature, max_tokens });
+  }
+
+  async feedback(
+    file: File | string,
+    message: string,
+    options: AIFeedbackOptions = {}
+  ): Promise<ServiceResult<AIResponse>> {
+    try {
+      const fileResult = await this.resolveFile(file);
+      if (!fileResult.data) {
+        return { error: fileResult.error };
+      }
+
+      let content: OpenAIChatMessage["content"];
+      // Only PDFs can be rendered to page images; other formats are always sent as text
+      const format = detectDocumentFormat(fileResult.data) || "pdf";
+      if (this.config.inputMode === "images" && format === "pdf") {
+        const image = await convertPdfToImage(fileResult.data, { allPages: true });
+        if (!image.file) {
+          return { error: image.error || "Failed to convert PDF to image" };
+        }
+
+        const pageFiles = image.pages?.map(page => page.file) || [image.file];
+        const imageParts = await Promise.all(
+          pageFiles.map(async pageFile => ({
+            type: "image_url",
+            image_url: { url: await blobToDataUrl(pageFile) }
+          }))
+        );
+        content = [...imageParts, { type: "text", text: message }];
+      } else {
+        const text = await extractDocumentText(fileResult.data);
+        content = `Resume:\n${text}\n\n${message}`;
+      }
+
+      const { signal, model, temperature, max_tokens } = options;
+      return await this.complete([{ role: "user", content }], { signal, model, temperature, max_tokens }, options.onProgress);
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "Feedback operation failed"
+      };
+    }
+  }
+
+  async img2txt(image: string | File | Blob): Promise<ServiceResult<string>> {
+    try {
+      const url = typeof image === "string" ? image : await blobToDataUrl(image);
+      const result = await this.complete([
+        {
+          role: "user",
+          content: [
+            { type: "image_url", image_url: { url } },
+            { type: "text", text: "Transcribe all text in this image. Return only the text." }
+          ]
+        }
+      ]);
+
+      if (!result.data) {
+        return { error: result.error };
+      }
+
+      const content = result.data.message.content;
+      return { data: typeof content === "string" ? content : content.map(part => part.text).join("") };
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "Image-to-text operation failed"
+      };
+    }
+  }
+}
+
+// Create OpenAI Service Manager (local storage and auth, remote chat completions)
+export const createOpenAIServices = (config: OpenAIConfig = getOpenAIConfig()): ServiceManager => {
+  const local = createLocalServices();
+
+  const manager: ServiceManager = {
+    auth: local.auth,
+    fs: local.fs,
+    kv: local.kv,
+    ai: new OpenAIAIService(config, local.fs),
+    isLoading: false,
+    error: local.error,
+    clearError: () => {
+      manager.error = null;
+    }
+  };
+
+  return manager;
+};
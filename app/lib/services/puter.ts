@@ -1,5 +1,4 @@
-import { create } from "zustand";
-import {
+import type {
   AuthService,
   FileStorageService,
   KVService,
@@ -9,13 +8,34 @@ import {
   AuthUser,
   FileItem,
   AIMessage,
-  AIResponse
+  AIResponse,
+  AIChatOptions,
+  AIFeedbackOptions
 } from "./index";
 
 // Helper to get Puter from window
 const getPuter = (): typeof window.puter | null =>
   typeof window !== "undefined" && window.puter ? window.puter : null;
 
+// Helper to map a Puter filesystem entry onto the shared FileItem shape, with a signed read URL
+const toFileItem = async (item: FSItem): Promise<FileItem> => {
+  let url = "";
+  try {
+    url = (await getPuter()?.fs.getReadURL(item.path)) || "";
+  } catch (err) {
+    // The entry is still usable by path, e.g. through fs.read
+    console.warn(`Failed to get a read URL for ${item.path}:`, err);
+  }
+
+  return {
+    id: item.id || item.uid || "",
+    name: item.name || "",
+    path: item.path || "",
+    url,
+    size: item.size ?? undefined
+  };
+};
+
 // Puter Auth Service Implementation
 class PuterAuthService implements AuthService {
   async getUser(): Promise<ServiceResult<AuthUser>> {
@@ -28,9 +48,9 @@ class PuterAuthService implements AuthService {
       const user = await puter.auth.getUser();
       return {
         data: {
-          id: user.id || user.uuid || "",
-          name: user.name || user.username || "",
-          email: user.email || ""
+          id: user.uuid || "",
+          name: user.username || "",
+          email: user.email
         }
       };
     } catch (err) {
@@ -96,29 +116,8 @@ class PuterFileStorageService implements FileStorageService {
     }
 
     try {
-      // Create a promise that rejects after a timeout
-      const uploadTimeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error("File upload timed out after 60 seconds"));
-        }, 60000); // 60 seconds timeout
-      });
-
-      // Race the upload against the timeout
-      const result = await Promise.race([
-        puter.fs.upload(files),
-        uploadTimeoutPromise
-      ]);
-
-      return {
-        data: {
-          id: result.id || result.uuid || "",
-          name: result.name || "",
-          path: result.path || "",
-          url: result.url || "",
-          size: result.size,
-          type: result.type
-        }
-      };
+      const result = await puter.fs.upload(files);
+      return { data: await toFileItem(result) };
     } catch (err) {
       return {
         error: err instanceof Error ? err.message : "Upload failed"
@@ -154,16 +153,7 @@ class PuterFileStorageService implements FileStorageService {
         return { error: "Write operation returned no result" };
       }
       
-      return {
-        data: {
-          id: result.id || result.uuid || "",
-          name: result.name || "",
-          path: result.path || "",
-          url: result.url || "",
-          size: result.size,
-          type: result.type
-        }
-      };
+      return { data: await toFileItem(result) };
     } catch (err) {
       return {
         error: err instanceof Error ? err.message : "Write failed"
@@ -200,14 +190,7 @@ class PuterFileStorageService implements FileStorageService {
       }
       
       return {
-        data: items.map(item => ({
-          id: item.id || item.uuid || "",
-          name: item.name || "",
-          path: item.path || "",
-          url: item.url || "",
-          size: item.size,
-          type: item.type
-        }))
+        data: await Promise.all(items.map(toFileItem))
       };
     } catch (err) {
       return {
@@ -226,19 +209,7 @@ class PuterKVService implements KVService {
     }
 
     try {
-      // Create a promise that rejects after a timeout
-      const kvTimeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error("Key-value store get operation timed out after 30 seconds"));
-        }, 30000); // 30 seconds timeout
-      });
-
-      // Race the key-value store operation against the timeout
-      const result = await Promise.race([
-        puter.kv.get(key),
-        kvTimeoutPromise
-      ]);
-
+      const result = await puter.kv.get(key);
       return { data: result };
     } catch (err) {
       return {
@@ -254,19 +225,7 @@ class PuterKVService implements KVService {
     }
 
     try {
-      // Create a promise that rejects after a timeout
-      const kvTimeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error("Key-value store set operation timed out after 60 seconds"));
-        }, 60000); // 60 seconds timeout
-      });
-
-      // Race the key-value store operation against the timeout
-      const result = await Promise.race([
-        puter.kv.set(key, value),
-        kvTimeoutPromise
-      ]);
-
+      const result = await puter.kv.set(key, value);
       return { data: result };
     } catch (err) {
       return {
@@ -291,15 +250,31 @@ class PuterKVService implements KVService {
     }
   }
 
-  async list(pattern: string, returnValues: boolean = false): Promise<ServiceResult<string[]>> {
+  async list(pattern: string): Promise<ServiceResult<string[]>> {
     const puter = getPuter();
     if (!puter) {
       return { error: "Puter.js not available" };
     }
 
     try {
-      const result = await puter.kv.list(pattern, returnValues);
-      return { data: result };
+      const result = await puter.kv.list(pattern, false);
+      return { data: result as string[] };
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "List operation failed"
+      };
+    }
+  }
+
+  async listValues(pattern: string): Promise<ServiceResult<KVItem[]>> {
+    const puter = getPuter();
+    if (!puter) {
+      return { error: "Puter.js not available" };
+    }
+
+    try {
+      const result = await puter.kv.list(pattern, true);
+      return { data: result as KVItem[] };
     } catch (err) {
       return {
         error: err instanceof Error ? err.message : "List operation failed"
@@ -324,11 +299,24 @@ class PuterKVService implements KVService {
   }
 }
 
+const DEFAULT_MODEL = "claude-3-7-sonnet";
+
+// Generation settings in Puter's option shape, with unset values left to Puter's defaults
+const toPuterChatOptions = (options: AIChatOptions): PuterChatOptions => ({
+  model: options.model || DEFAULT_MODEL,
+  ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+  ...(options.max_tokens !== undefined ? { max_tokens: options.max_tokens } : {})
+});
+
 // Puter AI Service Implementation
 class PuterAIService implements AIService {
+  readonly defaultModel = DEFAULT_MODEL;
+  readonly supportsChat = true;
+  readonly supportsFileParts = true;
+
   async chat(
     prompt: string | AIMessage[],
-    options?: any
+    options: AIChatOptions = {}
   ): Promise<ServiceResult<AIResponse>> {
     const puter = getPuter();
     if (!puter) {
@@ -336,7 +324,8 @@ class PuterAIService implements AIService {
     }
 
     try {
-      const result = await puter.ai.chat(prompt, options);
+      // Only the generation settings are forwarded; the abort signal is not a Puter option
+      const result = await puter.ai.chat(prompt as string | ChatMessage[], toPuterChatOptions(options));
       return { data: result as AIResponse };
     } catch (err) {
       return {
@@ -345,83 +334,69 @@ class PuterAIService implements AIService {
     }
   }
 
-  async feedback(file: string | File, message: string): Promise<ServiceResult<AIResponse>> {
+  async feedback(
+    file: string | File,
+    message: string,
+    options: AIFeedbackOptions = {}
+  ): Promise<ServiceResult<AIResponse>> {
     const puter = getPuter();
     if (!puter) {
       return { error: "Puter.js not available" };
     }
 
     try {
-      // Create a promise that rejects after a timeout
-      const feedbackTimeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error("AI feedback operation timed out after 120 seconds"));
-        }, 120000); // 120 seconds timeout (2 minutes)
-      });
-
-      // For file paths (strings)
-      if (typeof file === 'string') {
-        // Race the AI feedback operation against the timeout
-        const result = await Promise.race([
-          puter.ai.chat(
-            [
-              {
-                role: "user",
-                content: [
-                  {
-                    type: "file",
-                    puter_path: file,
-                  },
-                  {
-                    type: "text",
-                    text: message,
-                  },
-                ],
-              },
-            ],
-            { model: "claude-3-7-sonnet" }
-          ),
-          feedbackTimeoutPromise
-        ]);
-
-        return { data: result as AIResponse };
-      } 
-      // For File objects, we need to upload them first
-      else {
-        // This is a simplified approach - in a real implementation, 
-        // you might want to handle this differently
+      // File objects have to be uploaded first so the model can reference them by path
+      let filePath: string;
+      if (typeof file === "string") {
+        filePath = file;
+      } else {
         const uploadResult = await this.uploadFileForAI(file);
-        if (uploadResult.error) {
+        if (!uploadResult.data) {
           return { error: uploadResult.error };
         }
+        filePath = uploadResult.data;
+      }
 
-        const filePath = uploadResult.data;
-        
-        // Race the AI feedback operation against the timeout
-        const result = await Promise.race([
-          puter.ai.chat(
-            [
-              {
-                role: "user",
-                content: [
-                  {
-                    type: "file",
-                    puter_path: filePath,
-                  },
-                  {
-                    type: "text",
-                    text: message,
-                  },
-                ],
-              },
-            ],
-            { model: "claude-3-7-sonnet" }
-          ),
-          feedbackTimeoutPromise
-        ]);
-
+      const messages: ChatMessage[] = [
+        {
+          role: "user",
+          content: [
+            {
+              type: "file",
+              puter_path: filePath,
+            },
+            {
+              type: "text",
+              text: message,
+            },
+          ],
+        },
+      ];
+
+      const chatOptions = toPuterChatOptions(options);
+
+      if (!options.onProgress) {
+        const result = await puter.ai.chat(messages, chatOptions);
         return { data: result as AIResponse };
       }
+
+      // Streamed responses arrive as text parts; report the accumulated text after each one
+      const stream = (await puter.ai.chat(messages, {
+        ...chatOptions,
+        stream: true
+      })) as AsyncIterable<PuterChatStreamPart>;
+
+      let text = "";
+      for await (const part of stream) {
+        // Stop reporting once the attempt is abandoned so a retry starts from a clean slate
+        if (options.signal?.aborted) {
+          return { error: "AI feedback operation was cancelled" };
+        }
+        if (!part?.text) continue;
+        text += part.text;
+        options.onProgress(text);
+      }
+      return { data: { message: { content: text } } };
     } catch (err) {
       return {
         error: err instanceof Error ? err.message : "Feedback operation failed"
@@ -462,55 +437,51 @@ class PuterAIService implements AIService {
   }
 }
 
-// Create Puter Service Manager
-interface PuterServiceState extends ServiceManager {
-  init: () => void;
-}
+// Waits for the Puter.js script tag to finish loading
+const waitForPuter = (): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (getPuter()) {
+      resolve();
+      return;
+    }
 
-export const createPuterServices = () => {
-  // Create service instances
-  const authService = new PuterAuthService();
-  const fileStorageService = new PuterFileStorageService();
-  const kvService = new PuterKVService();
-  const aiService = new PuterAIService();
-
-  // Create and return the store
-  return create<PuterServiceState>((set, get) => {
-    const init = (): void => {
-      const puter = getPuter();
-      if (puter) {
-        set({ isLoading: false, puterReady: true });
-        return;
+    const interval = setInterval(() => {
+      if (getPuter()) {
+        clearInterval(interval);
+        clearTimeout(timeout);
+        resolve();
       }
+    }, 100);
 
-      set({ isLoading: true });
-      const interval = setInterval(() => {
-        if (getPuter()) {
-          clearInterval(interval);
-          set({ isLoading: false, puterReady: true });
-        }
-      }, 100);
+    const timeout = setTimeout(() => {
+      clearInterval(interval);
+      reject(new Error("Puter.js failed to load within 10 seconds"));
+    }, 10000);
+  });
 
-      setTimeout(() => {
-        clearInterval(interval);
-        if (!getPuter()) {
-          set({ 
-            error: "Puter.js failed to load within 10 seconds",
-            isLoading: false
-          });
-        }
-      }, 10000);
-    };
-
-    return {
-      auth: authService,
-      fs: fileStorageService,
-      kv: kvService,
-      ai: aiService,
-      isLoading: true,
-      error: null,
-      clearError: () => set({ error: null }),
-      init
-    };
-  })();
-};
\ No newline at end of file
+// Create Puter Service Manager
+export const createPuterServices = (): ServiceManager => {
+  const manager: ServiceManager = {
+    auth: new PuterAuthService(),
+    fs: new PuterFileStorageService(),
+    kv: new PuterKVService(),
+    ai: new PuterAIService(),
+    isLoading: true,
+    error: null,
+    clearError: () => {
+      manager.error = null;
+    },
+    init: async () => {
+      try {
+        await waitForPuter();
+      } catch (err) {
+        manager.error = err instanceof Error ? err.message : "Puter.js failed to load";
+        throw err;
+      } finally {
+        manager.isLoading = false;
+      }
+    }
+  };
+
+  return manager;
+};
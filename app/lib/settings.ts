@@ -0,0 +1,60 @@
+import {create} from "zustand";
+import {persist} from "zustand/middleware";
+import {type AIChatOptions, ServiceProvider} from "~/lib/services";
+
+// Analysis settings chosen on the settings page, kept in this browser's localStorage
+
+export interface AnalysisSettings {
+    // Empty means the provider's default model
+    model: string;
+    temperature?: number;
+    maxTokens?: number;
+    preset: AnalysisPreset;
+}
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+    model: '',
+    preset: 'deep',
+};
+
+// Suggestions for the model field; any model name the provider accepts can be typed in
+export const MODEL_SUGGESTIONS: Partial<Record<ServiceProvider, string[]>> = {
+    [ServiceProvider.PUTER]: ['claude-3-7-sonnet', 'claude-sonnet-4', 'gpt-4o', 'gpt-4o-mini', 'gemini-2.0-flash'],
+    [ServiceProvider.OPENAI]: ['gpt-4o', 'gpt-4o-mini'],
+};
+
+interface SettingsStore {
+    settings: AnalysisSettings;
+    // Key for the OpenAI-compatible provider. It is entered by the user rather than built into
+    // the bundle, and is only sent to the configured endpoint. Resetting the settings keeps it.
+    openaiApiKey: string;
+    saveSettings: (settings: AnalysisSettings) => void;
+    resetSettings: () => void;
+    saveOpenAIApiKey: (apiKey: string) => void;
+}
+
+export const useSettings = create<SettingsStore>()(
+    persist(
+        (set) => ({
+            settings: DEFAULT_ANALYSIS_SETTINGS,
+            openaiApiKey: '',
+            saveSettings: (settings) => set({ settings }),
+            resetSettings: () => set({ settings: DEFAULT_ANALYSIS_SETTINGS }),
+            saveOpenAIApiKey: (openaiApiKey) => set({ openaiApiKey }),
+        }),
+        { name: 'resumind:settings' }
+    )
+);
+
+// For code outside React, such as the job pipeline
+export const getAnalysisSettings = () => useSettings.getState().settings;
+
+export const getOpenAIApiKey = () => useSettings.getState().openaiApiKey;
+
+// The model and generation options every AI call should use, so follow-up requests run on the
+// same model as the analysis they build on
+export const getGenerationOptions = (settings: AnalysisSettings = getAnalysisSettings()): AIChatOptions => ({
+    model: settings.model || undefined,
+    temperature: settings.temperature,
+    max_tokens: settings.maxTokens,
+});
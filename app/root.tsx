@@ -9,8 +9,8 @@ import {
 
 import type { Route } from "./+types/root";
 import "./app.css";
-import {usePuterStore} from "~/lib/puter";
-import {useEffect} from "react";
+import {ServicesProvider} from "~/lib/services/context";
+import {useJobResumer} from "~/lib/pipeline";
 
 export const links: Route.LinksFunction = () => [
   { rel: "preconnect", href: "https://fonts.googleapis.com" },
@@ -26,12 +26,6 @@ export const links: Route.LinksFunction = () => [
 ];
 
 export function Layout({ children }: { children: React.ReactNode }) {
-  const { init } = usePuterStore();
-
-  useEffect(() => {
-    init()
-  }, [init]);
-
   return (
       <html lang="en">
       <head>
@@ -42,7 +36,9 @@ export function Layout({ children }: { children: React.ReactNode }) {
       </head>
       <body>
       <script src="https://js.puter.com/v2/"></script>
-      {children}
+      <ServicesProvider>
+        {children}
+      </ServicesProvider>
       <ScrollRestoration />
       <Scripts />
       </body>
@@ -51,6 +47,8 @@ export function Layout({ children }: { children: React.ReactNode }) {
 }
 
 export default function App() {
+  useJobResumer();
+
   return <Outlet />;
 }
 
@@ -5,5 +5,10 @@ export default [
     route('/auth', 'routes/auth.tsx'),
     route('/upload', 'routes/upload.tsx'),
     route('/resume/:id', 'routes/resume.tsx'),
+    route('/resume/:id/cover-letter', 'routes/cover-letter.tsx'),
+    route('/compare/:a/:b', 'routes/compare.tsx'),
+    route('/board', 'routes/board.tsx'),
+    route('/settings', 'routes/settings.tsx'),
+    route('/backup', 'routes/backup.tsx'),
     route('/wipe', 'routes/wipe.tsx'),
 ] satisfies RouteConfig;
\ No newline at end of file
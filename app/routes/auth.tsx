@@ -1,4 +1,4 @@
-import {usePuterStore} from "~/lib/puter";
+import {useServices} from "~/lib/services/context";
 import {useEffect} from "react";
 import {useLocation, useNavigate} from "react-router";
 
@@ -8,14 +8,14 @@ export const meta = () => ([
 ])
 
 const Auth = () => {
-    const { isLoading, auth } = usePuterStore();
+    const { isLoading, isAuthenticated, signIn, signOut } = useServices();
     const location = useLocation();
     const next = location.search.split('next=')[1];
     const navigate = useNavigate();
 
     useEffect(() => {
-        if(auth.isAuthenticated) navigate(next);
-    }, [auth.isAuthenticated, next])
+        if(isAuthenticated) navigate(next);
+    }, [isAuthenticated, next])
 
     return (
         <main className="bg-[url('/images/bg-auth.svg')] bg-cover min-h-screen flex items-center justify-center">
@@ -32,12 +32,12 @@ const Auth = () => {
                             </button>
                         ) : (
                             <>
-                                {auth.isAuthenticated ? (
-                                    <button className="auth-button" onClick={auth.signOut}>
+                                {isAuthenticated ? (
+                                    <button className="auth-button" onClick={signOut}>
                                         <p>Log Out</p>
                                     </button>
                                 ) : (
-                                    <button className="auth-button" onClick={auth.signIn}>
+                                    <button className="auth-button" onClick={signIn}>
                                         <p>Log In</p>
                                     </button>
                                 )}
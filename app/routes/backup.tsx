@@ -0,0 +1,132 @@
+import {type ChangeEvent, useEffect, useState} from "react";
+import {Link, useNavigate} from "react-router";
+import Navbar from "~/components/Navbar";
+import {useServices} from "~/lib/services/context";
+import {backupFileName, backupToMarkdown, createBackup, type ImportSummary, importBackup, parseBackup} from "~/lib/backup";
+import {downloadBlob} from "~/lib/utils";
+
+export const meta = () => ([
+    { title: 'Resumind | Backup' },
+    { name: 'description', content: 'Export and import your resume reviews' },
+])
+
+const Backup = () => {
+    const { isLoading, isAuthenticated, fs, kv } = useServices();
+    const [includeFiles, setIncludeFiles] = useState(true);
+    const [isWorking, setIsWorking] = useState(false);
+    const [statusText, setStatusText] = useState('');
+    const [summary, setSummary] = useState<ImportSummary | null>(null);
+    const navigate = useNavigate();
+
+    useEffect(() => {
+        if(!isLoading && !isAuthenticated) navigate('/auth?next=/backup');
+    }, [isLoading, isAuthenticated])
+
+    const handleExport = async (format: 'json' | 'md') => {
+        setIsWorking(true);
+        setSummary(null);
+        setStatusText(format === 'json' && includeFiles ? 'Collecting files...' : 'Exporting...');
+
+        const { data: backup, error } = await createBackup({ fs, kv }, { includeFiles: format === 'json' && includeFiles });
+        setIsWorking(false);
+        if (!backup) return setStatusText(`Error: ${error}`);
+
+        if (format === 'json') {
+            downloadBlob(new Blob([JSON.stringify(backup)], { type: 'application/json' }), backupFileName('json'));
+        } else {
+            downloadBlob(new Blob([backupToMarkdown(backup.resumes)], { type: 'text/markdown' }), backupFileName('md'));
+        }
+        setStatusText(`Exported ${backup.resumes.length} ${backup.resumes.length === 1 ? 'resume' : 'resumes'}`);
+    }
+
+    const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setIsWorking(true);
+        setSummary(null);
+        setStatusText('Importing...');
+
+        const parsed = parseBackup(await file.text());
+        if (!parsed.data) {
+            setIsWorking(false);
+            return setStatusText(`Error: ${parsed.error}`);
+        }
+
+        const { data, error } = await importBackup({ fs, kv }, parsed.data);
+        setIsWorking(false);
+        setStatusText(data ? 'Import complete' : `Error: ${error}`);
+        setSummary(data || null);
+    }
+
+    return (
+        <main className="bg-[url('/images/bg-main.svg')] bg-cover">
+            <Navbar />
+
+            <section className="main-section">
+                <div className="page-heading py-16">
+                    <h1>Backup</h1>
+                    <h2>Export your reviews or restore them from a backup</h2>
+
+                    <div className="flex flex-col gap-4 mt-8 w-full max-w-2xl">
+                        <div className="flex flex-col gap-4 bg-white rounded-2xl shadow-md p-6">
+                            <h3 className="text-2xl font-bold">Export</h3>
+                            <p className="text-sm text-gray-500">
+                                The JSON backup can be imported again and includes follow-up conversations. The Markdown summary lists every review's scores and improvements.
+                            </p>
+                            <label className="flex flex-row items-center gap-2 text-sm">
+                                <input
+                                    type="checkbox"
+                                    checked={includeFiles}
+                                    onChange={(e) => setIncludeFiles(e.target.checked)}
+                                    className="!w-fit !p-0"
+                                />
+                                Include resume files and page previews in the JSON backup
+                            </label>
+                            <div className="flex flex-row gap-4 max-sm:flex-col">
+                                <button className="primary-button" onClick={() => handleExport('json')} disabled={isWorking}>
+                                    Download JSON backup
+                                </button>
+                                <button className="primary-button" onClick={() => handleExport('md')} disabled={isWorking}>
+                                    Download Markdown summary
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="flex flex-col gap-4 bg-white rounded-2xl shadow-md p-6">
+                            <h3 className="text-2xl font-bold">Import</h3>
+                            <p className="text-sm text-gray-500">
+                                Restored resumes get new ids. Resumes that are already on your dashboard are skipped, and
+                                analyses that were still running are restored as failed so they can be retried.
+                            </p>
+                            <input
+                                type="file"
+                                accept="application/json,.json"
+                                onChange={handleImport}
+                                disabled={isWorking}
+                            />
+                        </div>
+
+                        {statusText && <p className="text-sm text-gray-600 self-center">{statusText}</p>}
+                        {summary && (
+                            <div className="flex flex-col gap-2 bg-white rounded-2xl shadow-md p-6 text-sm">
+                                <p>Imported: {summary.imported}</p>
+                                <p>Skipped as duplicates: {summary.duplicates}</p>
+                                {summary.errors.length > 0 && (
+                                    <ul className="flex flex-col gap-1 text-red-600">
+                                        {summary.errors.map((error) => <li key={error}>{error}</li>)}
+                                    </ul>
+                                )}
+                                {summary.imported > 0 && (
+                                    <Link to="/" className="text-[#606beb] font-semibold">View your resumes</Link>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </section>
+        </main>
+    )
+}
+export default Backup
@@ -0,0 +1,155 @@
+import {type DragEvent, useEffect, useState} from "react";
+import {Link, useNavigate} from "react-router";
+import Navbar from "~/components/Navbar";
+import ScoreBadge from "~/components/ScoreBadge";
+import {useServices} from "~/lib/services/context";
+import {cn} from "~/lib/utils";
+import {APPLICATION_STATUSES, APPLICATION_STATUS_LABELS, getApplication, updateApplication} from "~/lib/applications";
+import {parseResumes, RESUME_KEY_PATTERN, resumeTitle, updateResumeRecord} from "~/lib/resumes";
+import {getOverallScore} from "~/lib/scoring";
+
+export const meta = () => ([
+    { title: 'Resumind | Board' },
+    { name: 'description', content: 'Track your applications by status' },
+])
+
+const BoardCard = ({ resume, onDragStart }: { resume: Resume, onDragStart: (e: DragEvent<HTMLDivElement>) => void }) => {
+    const application = getApplication(resume);
+
+    return (
+        <div
+            draggable
+            onDragStart={onDragStart}
+            className="bg-white rounded-2xl shadow-sm p-4 flex flex-col gap-2 cursor-grab active:cursor-grabbing"
+        >
+            <Link to={`/resume/${resume.id}`} className="font-semibold break-words hover:underline">
+                {resumeTitle(resume)}
+            </Link>
+            {resume.feedback && (
+                <div className="flex flex-row items-center gap-2">
+                    <ScoreBadge score={getOverallScore(resume)} />
+                    <p className="text-sm text-gray-500">{getOverallScore(resume)}/100</p>
+                </div>
+            )}
+            {application.appliedDate && (
+                <p className="text-sm text-gray-500">Applied {application.appliedDate}</p>
+            )}
+            {application.contact && (
+                <p className="text-sm text-gray-500 break-words">{application.contact}</p>
+            )}
+        </div>
+    )
+}
+
+const Board = () => {
+    const { isLoading, isAuthenticated, kv } = useServices();
+    const navigate = useNavigate();
+    const [resumes, setResumes] = useState<Resume[]>([]);
+    const [loadingResumes, setLoadingResumes] = useState(false);
+    const [dragOverStatus, setDragOverStatus] = useState<ApplicationStatus | null>(null);
+    const [errorText, setErrorText] = useState('');
+
+    useEffect(() => {
+        if(!isLoading && !isAuthenticated) navigate('/auth?next=/board');
+    }, [isLoading, isAuthenticated])
+
+    useEffect(() => {
+        if(isLoading) return;
+
+        const loadResumes = async () => {
+            setLoadingResumes(true);
+
+            const result = await kv.listValues(RESUME_KEY_PATTERN);
+            if(result.error) console.error('Failed to load resumes:', result.error);
+            const items = result.data || [];
+
+            setResumes(parseResumes(items));
+            setLoadingResumes(false);
+        }
+
+        loadResumes();
+    }, [isLoading, kv]);
+
+    const moveResume = async (id: string, status: ApplicationStatus) => {
+        const resume = resumes.find((resume) => resume.id === id);
+        if (!resume || getApplication(resume).status === status) return;
+
+        // Move the card straight away and put it back if the write fails
+        const updated = updateApplication(resume, { status });
+        setResumes((current) => current.map((item) => item.id === id ? updated : item));
+        setErrorText('');
+
+        // Only the status changes, applied to the stored record in case its notes were edited elsewhere
+        const { data: saved, error } = await updateResumeRecord(kv, id, (current) => ({
+            application: updateApplication(current, { status }).application,
+        }));
+        if (!saved) {
+            console.error('Failed to update application status:', error);
+            setResumes((current) => current.map((item) => item.id === id ? resume : item));
+            setErrorText(`Error: Failed to move ${resumeTitle(resume)}. ${error}`);
+            return;
+        }
+        setResumes((current) => current.map((item) => item.id === id ? saved : item));
+    }
+
+    const handleDrop = (e: DragEvent<HTMLDivElement>, status: ApplicationStatus) => {
+        e.preventDefault();
+        setDragOverStatus(null);
+        const id = e.dataTransfer.getData('text/plain');
+        if (id) moveResume(id, status);
+    }
+
+    return (
+        <main className="bg-[url('/images/bg-main.svg')] bg-cover">
+            <Navbar />
+
+            <section className="main-section">
+                <div className="page-heading py-16">
+                    <h1>Application Board</h1>
+                    <h2>Drag applications between columns to update their status.</h2>
+                </div>
+
+                {errorText && <p className="text-red-600">{errorText}</p>}
+
+                {loadingResumes ? (
+                    <img src="/images/resume-scan-2.gif" className="w-[200px]" />
+                ) : (
+                    <div className="grid grid-cols-5 max-xl:grid-cols-3 max-md:grid-cols-1 gap-4 w-full max-w-[1850px]">
+                        {APPLICATION_STATUSES.map((status) => {
+                            const column = resumes.filter((resume) => getApplication(resume).status === status);
+
+                            return (
+                                <div
+                                    key={status}
+                                    onDragOver={(e) => {
+                                        e.preventDefault();
+                                        setDragOverStatus(status);
+                                    }}
+                                    onDragLeave={() => setDragOverStatus(null)}
+                                    onDrop={(e) => handleDrop(e, status)}
+                                    className={cn(
+                                        "flex flex-col gap-3 rounded-2xl p-3 min-h-[300px] bg-gray-50/80",
+                                        dragOverStatus === status && "ring-2 ring-[#606beb]"
+                                    )}
+                                >
+                                    <div className="flex flex-row justify-between items-center px-1">
+                                        <p className="text-lg font-semibold">{APPLICATION_STATUS_LABELS[status]}</p>
+                                        <p className="text-sm text-gray-500">{column.length}</p>
+                                    </div>
+                                    {column.map((resume) => (
+                                        <BoardCard
+                                            key={resume.id}
+                                            resume={resume}
+                                            onDragStart={(e) => e.dataTransfer.setData('text/plain', resume.id)}
+                                        />
+                                    ))}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </section>
+        </main>
+    )
+}
+export default Board
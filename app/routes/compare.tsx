@@ -0,0 +1,236 @@
+import {Link, useNavigate, useParams} from "react-router";
+import {useEffect, useState} from "react";
+import {useServices} from "~/lib/services/context";
+import Summary from "~/components/Summary";
+import ScoreGauge from "~/components/ScoreGauge";
+import ScoreBadge from "~/components/ScoreBadge";
+import {cn} from "~/lib/utils";
+import {FEEDBACK_CATEGORIES, FEEDBACK_CATEGORY_LABELS, type FeedbackCategory} from "~/lib/feedback";
+import {
+    type AnalyzedResume,
+    isAnalyzed,
+    resumeKey,
+    type ResumeListStatus,
+    resumeTitle,
+    tryParseResume,
+    useAnalyzedResumes,
+} from "~/lib/resumes";
+import {computeOverallScore, getOverallScore} from "~/lib/scoring";
+import {getRubric} from "~/lib/rubrics";
+
+export const meta = () => ([
+    { title: 'Resumind | Compare' },
+    { name: 'description', content: 'Compare two resume analyses side by side' },
+])
+
+type Tip = Feedback[FeedbackCategory]['tips'][number];
+
+const normalizeTip = (tip: string) => tip.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Tips whose text does not appear anywhere in the other analysis' tips for the same category
+const uniqueTips = (tips: Tip[], otherTips: Tip[]) => {
+    const other = new Set(otherTips.map((tip) => normalizeTip(tip.tip)));
+    return new Set(tips.filter((tip) => !other.has(normalizeTip(tip.tip))).map((tip) => tip.tip));
+}
+
+const ScoreDelta = ({ delta }: { delta: number }) => (
+    <p className={cn(
+        "text-xl font-semibold w-16 text-center",
+        delta > 0 ? "text-green-600" : delta < 0 ? "text-red-600" : "text-gray-400"
+    )}>
+        {delta > 0 ? `+${delta}` : delta === 0 ? '±0' : delta}
+    </p>
+)
+
+const ScoreCell = ({ score }: { score: number }) => (
+    <div className="flex flex-row gap-2 items-center justify-end flex-1">
+        <ScoreBadge score={score} />
+        <p className="text-2xl">{score}/100</p>
+    </div>
+)
+
+const TipList = ({ tips, unique }: { tips: Tip[], unique: Set<string> }) => (
+    <div className="flex flex-col gap-2 flex-1">
+        {tips.length === 0 && <p className="text-sm text-gray-400">No tips</p>}
+        {tips.map((tip, index) => (
+            <div
+                key={index}
+                className={cn(
+                    "flex flex-row gap-2 items-start rounded-lg p-2",
+                    unique.has(tip.tip) ? "bg-badge-yellow" : "bg-gray-50"
+                )}
+            >
+                <img
+                    src={tip.type === 'good' ? "/icons/check.svg" : "/icons/warning.svg"}
+                    alt={tip.type}
+                    className="size-5 mt-0.5"
+                />
+                <div className="flex flex-col gap-1">
+                    <p className="text-gray-700">{tip.tip}</p>
+                    {unique.has(tip.tip) && (
+                        <p className="text-xs font-semibold text-yellow-600">Only in this analysis</p>
+                    )}
+                </div>
+            </div>
+        ))}
+    </div>
+)
+
+interface ResumeSelectProps {
+    current: Resume;
+    resumes: Resume[];
+    status: ResumeListStatus;
+    onChange: (id: string) => void;
+    // Called when the picker is opened, so the full list is only loaded when it is needed
+    onOpen: () => void;
+}
+
+const ResumeSelect = ({ current, resumes, status, onChange, onOpen }: ResumeSelectProps) => {
+    // Until the list has loaded, the picker offers the resume it shows and says why the rest are missing
+    const options = status === 'loaded' && resumes.length ? resumes : [current];
+
+    return (
+        <select
+            value={current.id}
+            onChange={(e) => onChange(e.target.value)}
+            onFocus={onOpen}
+            onMouseDown={onOpen}
+            className="w-full p-2 rounded-lg border border-gray-200 bg-white"
+        >
+            {options.map((resume) => (
+                <option key={resume.id} value={resume.id}>
+                    {resumeTitle(resume)} ({getOverallScore(resume)}/100)
+                </option>
+            ))}
+            {status !== 'loaded' && (
+                <option value="" disabled>
+                    {status === 'failed' ? 'Could not load other analyses, reopen to retry' : 'Loading other analyses...'}
+                </option>
+            )}
+        </select>
+    )
+}
+
+const Compare = () => {
+    const { isLoading, isAuthenticated, kv } = useServices();
+    const { a, b } = useParams();
+    const [left, setLeft] = useState<AnalyzedResume | null>(null);
+    const [right, setRight] = useState<AnalyzedResume | null>(null);
+    const picker = useAnalyzedResumes(kv);
+    const [loadingResumes, setLoadingResumes] = useState(true);
+    const navigate = useNavigate();
+
+    useEffect(() => {
+        if(!isLoading && !isAuthenticated) navigate(`/auth?next=/compare/${a}/${b}`);
+    }, [isLoading, isAuthenticated])
+
+    useEffect(() => {
+        if(isLoading || !a || !b) return;
+
+        const loadResume = async (id: string) => {
+            const { data, error } = await kv.get(resumeKey(id));
+            if(error) console.error(`Failed to load resume ${id}:`, error);
+            const resume = data ? tryParseResume(data, resumeKey(id)) : null;
+            return resume && isAnalyzed(resume) ? resume : null;
+        }
+
+        const loadPair = async () => {
+            setLoadingResumes(true);
+
+            const [leftResume, rightResume] = await Promise.all([loadResume(a), loadResume(b)]);
+            setLeft(leftResume);
+            setRight(rightResume);
+            setLoadingResumes(false);
+        }
+
+        loadPair();
+    }, [a, b, isLoading, kv]);
+
+    const leftScore = left && computeOverallScore(left.feedback, getRubric(left.rubricId));
+    const rightScore = right && computeOverallScore(right.feedback, getRubric(right.rubricId));
+
+    return (
+        <main className="!pt-0">
+            <nav className="resume-nav">
+                <Link to="/" className="back-button">
+                    <img src="/icons/back.svg" alt="logo" className="w-2.5 h-2.5" />
+                    <span className="text-gray-800 text-sm font-semibold">Back to Homepage</span>
+                </Link>
+            </nav>
+            <section className="flex flex-col gap-8 p-8 max-sm:p-4 w-full max-w-7xl mx-auto">
+                <h2 className="text-4xl !text-black font-bold">Compare Analyses</h2>
+                {loadingResumes ? (
+                    <img src="/images/resume-scan-2.gif" className="w-[200px] self-center" />
+                ) : !left || !right || !leftScore || !rightScore ? (
+                    <p className="text-xl text-gray-500">
+                        One or both of these analyses could not be found.
+                    </p>
+                ) : (
+                    <div className="flex flex-col gap-8 animate-in fade-in duration-1000">
+                        <div className="grid grid-cols-2 max-lg:grid-cols-1 gap-8">
+                            {[left, right].map((resume, index) => (
+                                <div key={index} className="flex flex-col gap-4">
+                                    <ResumeSelect
+                                        current={resume}
+                                        resumes={picker.resumes}
+                                        status={picker.status}
+                                        onChange={(id) => navigate(index === 0 ? `/compare/${id}/${b}` : `/compare/${a}/${id}`)}
+                                        onOpen={picker.load}
+                                    />
+                                    <Link to={`/resume/${resume.id}`} className="text-2xl font-semibold hover:underline">
+                                        {resumeTitle(resume)}
+                                    </Link>
+                                    {resume.versions?.at(-1)?.model && (
+                                        <p className="text-sm text-gray-500">Analyzed with {resume.versions.at(-1)!.model}</p>
+                                    )}
+                                    <Summary feedback={resume.feedback} rubricId={resume.rubricId} />
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="bg-white rounded-2xl shadow-md w-full p-4 flex flex-col gap-4">
+                            <h3 className="text-2xl font-bold">Score Differences</h3>
+                            <div className="flex flex-row items-center justify-around gap-4">
+                                <ScoreGauge score={leftScore.score} breakdown={leftScore.breakdown} />
+                                <ScoreDelta delta={rightScore.score - leftScore.score} />
+                                <ScoreGauge score={rightScore.score} breakdown={rightScore.breakdown} />
+                            </div>
+                            {FEEDBACK_CATEGORIES.map((category) => (
+                                <div key={category} className="flex flex-row items-center gap-4 bg-gray-50 rounded-2xl p-4">
+                                    <p className="text-2xl w-40 max-sm:w-24">{FEEDBACK_CATEGORY_LABELS[category]}</p>
+                                    <ScoreCell score={left.feedback[category].score} />
+                                    <ScoreDelta delta={right.feedback[category].score - left.feedback[category].score} />
+                                    <ScoreCell score={right.feedback[category].score} />
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="bg-white rounded-2xl shadow-md w-full p-4 flex flex-col gap-6">
+                            <div className="flex flex-col gap-1">
+                                <h3 className="text-2xl font-bold">Tips</h3>
+                                <p className="text-sm text-gray-500">
+                                    Highlighted tips appear in one analysis but not the other.
+                                </p>
+                            </div>
+                            {FEEDBACK_CATEGORIES.map((category) => {
+                                const leftTips: Tip[] = left.feedback[category].tips;
+                                const rightTips: Tip[] = right.feedback[category].tips;
+
+                                return (
+                                    <div key={category} className="flex flex-col gap-2">
+                                        <p className="text-xl font-semibold">{FEEDBACK_CATEGORY_LABELS[category]}</p>
+                                        <div className="flex flex-row max-lg:flex-col gap-4">
+                                            <TipList tips={leftTips} unique={uniqueTips(leftTips, rightTips)} />
+                                            <TipList tips={rightTips} unique={uniqueTips(rightTips, leftTips)} />
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+            </section>
+        </main>
+    )
+}
+export default Compare
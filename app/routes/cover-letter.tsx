@@ -0,0 +1,240 @@
+import {useEffect, useState} from "react";
+import {Link, useNavigate, useParams} from "react-router";
+import {useServices} from "~/lib/services/context";
+import {DOCUMENT_MIME_TYPES, extractDocumentText} from "~/lib/ingest";
+import {resumeKey, resumeTitle, tryParseResume} from "~/lib/resumes";
+import {
+    COVER_LETTER_LENGTHS,
+    COVER_LETTER_TONES,
+    type CoverLetterFormat,
+    coverLetterFileName,
+    exportCoverLetter,
+    generateCoverLetter,
+    readCoverLetter,
+    saveCoverLetter,
+} from "~/lib/coverLetters";
+import {cn, downloadBlob} from "~/lib/utils";
+
+export const meta = () => ([
+    { title: 'Resumind | Cover Letter' },
+    { name: 'description', content: 'Draft a cover letter tailored to the job' },
+])
+
+const EXPORT_FORMATS: { format: CoverLetterFormat; label: string }[] = [
+    { format: 'txt', label: 'Text' },
+    { format: 'docx', label: 'Word' },
+    { format: 'pdf', label: 'PDF' },
+];
+
+const CoverLetter = () => {
+    const { isLoading, isAuthenticated, fs, kv, ai } = useServices();
+    const { id } = useParams();
+    const [record, setRecord] = useState<Resume | null>(null);
+    const [tone, setTone] = useState<CoverLetterTone>('professional');
+    const [length, setLength] = useState<CoverLetterLength>('medium');
+    const [draft, setDraft] = useState('');
+    const [selectedVersionId, setSelectedVersionId] = useState('');
+    const [isWorking, setIsWorking] = useState(false);
+    const [statusText, setStatusText] = useState('');
+    const navigate = useNavigate();
+
+    useEffect(() => {
+        if(!isLoading && !isAuthenticated) navigate(`/auth?next=/resume/${id}/cover-letter`);
+    }, [isLoading, isAuthenticated])
+
+    useEffect(() => {
+        if(isLoading || !id) return;
+
+        const loadResume = async () => {
+            const { data } = await kv.get(resumeKey(id));
+            if (!data) return setStatusText('Error: Resume not found');
+
+            const resume = tryParseResume(data, resumeKey(id));
+            if (!resume) return setStatusText('Error: The stored resume could not be read');
+            setRecord(resume);
+
+            // Open the latest saved draft, if any
+            const latest = resume.coverLetters?.at(-1);
+            if (latest) await openVersion(latest);
+        }
+
+        loadResume();
+    }, [id, isLoading, kv]);
+
+    const openVersion = async (version: CoverLetterVersion) => {
+        const { data, error } = await readCoverLetter(fs, version);
+        if (data === undefined) return setStatusText(`Error: ${error}`);
+
+        setDraft(data);
+        setTone(version.tone);
+        setLength(version.length);
+        setSelectedVersionId(version.id);
+        setStatusText('');
+    }
+
+    const handleGenerate = async () => {
+        if (!record?.feedback) return;
+
+        setIsWorking(true);
+        setStatusText('Writing your cover letter...');
+
+        let resumeText = '';
+        const { data: resumeBlob } = await fs.read(record.resumePath);
+        if (resumeBlob) {
+            try {
+                resumeText = await extractDocumentText(new Blob([resumeBlob], { type: DOCUMENT_MIME_TYPES[record.resumeFormat || 'pdf'] }));
+            } catch (error) {
+                console.error('Error reading resume text:', error);
+            }
+        }
+
+        const { data, error } = await generateCoverLetter(ai, { resume: record, feedback: record.feedback, resumeText, tone, length });
+        setIsWorking(false);
+        if (!data) return setStatusText(`Error: ${error}`);
+
+        setDraft(data);
+        setSelectedVersionId('');
+        setStatusText('Draft ready. Edit it below, then save it to keep this version.');
+    }
+
+    const handleSave = async () => {
+        if (!record || !draft.trim()) return;
+
+        setIsWorking(true);
+        const { data, error } = await saveCoverLetter({ fs, kv }, record, { text: draft, tone, length });
+        setIsWorking(false);
+        if (!data) return setStatusText(`Error: ${error}`);
+
+        setRecord(data);
+        setSelectedVersionId(data.coverLetters?.at(-1)?.id || '');
+        setStatusText('Draft saved');
+    }
+
+    const handleExport = async (format: CoverLetterFormat) => {
+        if (!record || !draft.trim()) return;
+
+        try {
+            downloadBlob(await exportCoverLetter(draft, format), coverLetterFileName(record, format));
+        } catch (error) {
+            console.error('Error exporting cover letter:', error);
+            setStatusText('Error: Failed to export cover letter');
+        }
+    }
+
+    const versions = record?.coverLetters || [];
+
+    return (
+        <main className="!pt-0">
+            <nav className="resume-nav">
+                <Link to={`/resume/${id}`} className="back-button">
+                    <img src="/icons/back.svg" alt="logo" className="w-2.5 h-2.5" />
+                    <span className="text-gray-800 text-sm font-semibold">Back to Review</span>
+                </Link>
+            </nav>
+
+            <section className="main-section">
+                <div className="page-heading py-16">
+                    <h1>Cover Letter</h1>
+                    <h2>{record ? resumeTitle(record) : 'Loading...'}</h2>
+                </div>
+
+                <div className="flex flex-col gap-4 w-full max-w-4xl">
+                    {record && !record.feedback && (
+                        <p className="text-gray-600">Finish the resume analysis before generating a cover letter.</p>
+                    )}
+                    {!ai.supportsChat && (
+                        <p className="text-gray-600">The configured AI provider cannot write cover letters. Saved drafts can still be opened and exported.</p>
+                    )}
+
+                    <div className="grid grid-cols-2 max-sm:grid-cols-1 gap-4 w-full">
+                        <div className="form-div">
+                            <label htmlFor="cover-letter-tone">Tone</label>
+                            <select
+                                id="cover-letter-tone"
+                                value={tone}
+                                onChange={(e) => setTone(e.target.value as CoverLetterTone)}
+                                className="w-full p-4 inset-shadow rounded-2xl focus:outline-none bg-white"
+                            >
+                                {(Object.keys(COVER_LETTER_TONES) as CoverLetterTone[]).map((option) => (
+                                    <option key={option} value={option}>{COVER_LETTER_TONES[option].label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="form-div">
+                            <label htmlFor="cover-letter-length">Length</label>
+                            <select
+                                id="cover-letter-length"
+                                value={length}
+                                onChange={(e) => setLength(e.target.value as CoverLetterLength)}
+                                className="w-full p-4 inset-shadow rounded-2xl focus:outline-none bg-white"
+                            >
+                                {(Object.keys(COVER_LETTER_LENGTHS) as CoverLetterLength[]).map((option) => (
+                                    <option key={option} value={option}>{COVER_LETTER_LENGTHS[option].label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <button className="primary-button" onClick={handleGenerate} disabled={isWorking || !record?.feedback || !ai.supportsChat}>
+                        {isWorking ? 'Working...' : draft ? 'Generate a new draft' : 'Generate cover letter'}
+                    </button>
+
+                    {draft && (
+                        <>
+                            <div className="form-div">
+                                <label htmlFor="cover-letter-draft">Draft</label>
+                                <textarea
+                                    id="cover-letter-draft"
+                                    rows={18}
+                                    value={draft}
+                                    onChange={(e) => {
+                                        setDraft(e.target.value);
+                                        setSelectedVersionId('');
+                                    }}
+                                />
+                            </div>
+                            <div className="flex flex-row flex-wrap items-center gap-2">
+                                <button
+                                    className="back-button text-sm font-semibold cursor-pointer"
+                                    onClick={handleSave}
+                                    disabled={isWorking || !!selectedVersionId}
+                                >
+                                    {selectedVersionId ? 'Saved' : 'Save draft'}
+                                </button>
+                                {EXPORT_FORMATS.map(({ format, label }) => (
+                                    <button
+                                        key={format}
+                                        className="back-button text-sm font-semibold cursor-pointer"
+                                        onClick={() => handleExport(format)}
+                                    >
+                                        Export as {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </>
+                    )}
+                    {statusText && <p className="text-sm text-gray-600">{statusText}</p>}
+
+                    {versions.length > 0 && (
+                        <div className="flex flex-col gap-2 bg-white rounded-2xl shadow-md w-full p-4">
+                            <h3 className="text-2xl font-bold">Saved Drafts</h3>
+                            {[...versions].reverse().map((version) => (
+                                <button
+                                    key={version.id}
+                                    onClick={() => openVersion(version)}
+                                    className={cn(
+                                        "text-left rounded-2xl p-3 cursor-pointer text-sm",
+                                        version.id === selectedVersionId ? "bg-gray-100" : "bg-gray-50 hover:bg-gray-100"
+                                    )}
+                                >
+                                    {new Date(version.createdAt).toLocaleString()} · {COVER_LETTER_TONES[version.tone].label} · {COVER_LETTER_LENGTHS[version.length].label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </section>
+        </main>
+    )
+}
+export default CoverLetter
@@ -1,9 +1,11 @@
 import type { Route } from "./+types/home";
 import Navbar from "~/components/Navbar";
 import ResumeCard from "~/components/ResumeCard";
-import {usePuterStore} from "~/lib/puter";
-import {Link, useNavigate} from "react-router";
-import {useEffect, useState} from "react";
+import ResumeFilters from "~/components/ResumeFilters";
+import {filterResumes, parseResumes, readResumeFilters, RESUME_KEY_PATTERN, type ResumeFilters as Filters, writeResumeFilters} from "~/lib/resumes";
+import {useServices} from "~/lib/services/context";
+import {Link, useNavigate, useSearchParams} from "react-router";
+import {useEffect, useMemo, useState} from "react";
 
 export function meta({}: Route.MetaArgs) {
   return [
@@ -13,31 +15,37 @@ export function meta({}: Route.MetaArgs) {
 }
 
 export default function Home() {
-  const { auth, kv } = usePuterStore();
+  const { isLoading, isAuthenticated, kv } = useServices();
   const navigate = useNavigate();
   const [resumes, setResumes] = useState<Resume[]>([]);
   const [loadingResumes, setLoadingResumes] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filters = readResumeFilters(searchParams);
+  const visibleResumes = useMemo(() => filterResumes(resumes, filters), [resumes, searchParams]);
+
+  const updateFilters = (next: Filters) => setSearchParams(writeResumeFilters(next), { replace: true });
 
   useEffect(() => {
-    if(!auth.isAuthenticated) navigate('/auth?next=/');
-  }, [auth.isAuthenticated])
+    if(!isLoading && !isAuthenticated) navigate('/auth?next=/');
+  }, [isLoading, isAuthenticated])
 
   useEffect(() => {
+    if(isLoading) return;
+
     const loadResumes = async () => {
       setLoadingResumes(true);
 
-      const resumes = (await kv.list('resume:*', true)) as KVItem[];
-
-      const parsedResumes = resumes?.map((resume) => (
-          JSON.parse(resume.value) as Resume
-      ))
+      const result = await kv.listValues(RESUME_KEY_PATTERN);
+      if(result.error) console.error('Failed to load resumes:', result.error);
+      const resumes = result.data || [];
 
-      setResumes(parsedResumes || []);
+      setResumes(parseResumes(resumes));
       setLoadingResumes(false);
     }
 
     loadResumes()
-  }, []);
+  }, [isLoading, kv]);
 
   return <main className="bg-[url('/images/bg-main.svg')] bg-cover">
     <Navbar />
@@ -58,13 +66,26 @@ export default function Home() {
       )}
 
       {!loadingResumes && resumes.length > 0 && (
+          <ResumeFilters
+              filters={filters}
+              onChange={updateFilters}
+              resultCount={visibleResumes.length}
+              totalCount={resumes.length}
+          />
+      )}
+
+      {!loadingResumes && visibleResumes.length > 0 && (
           <div className="resumes-section">
-            {resumes.map((resume) => (
+            {visibleResumes.map((resume) => (
                 <ResumeCard key={resume.id} resume={resume} />
             ))}
           </div>
       )}
 
+      {!loadingResumes && resumes.length > 0 && visibleResumes.length === 0 && (
+          <p className="text-xl text-gray-500">No resumes match these filters.</p>
+      )}
+
       {!loadingResumes && resumes?.length === 0 && (
           <div className="flex flex-col items-center justify-center mt-10 gap-4">
             <Link to="/upload" className="primary-button w-fit text-xl font-semibold">
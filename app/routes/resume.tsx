@@ -1,9 +1,29 @@
 import {Link, useNavigate, useParams} from "react-router";
-import {useEffect, useState} from "react";
-import {usePuterStore} from "~/lib/puter";
+import {type FormEvent, useEffect, useRef, useState} from "react";
+import {useServices} from "~/lib/services/context";
 import Summary from "~/components/Summary";
 import ATS from "~/components/ATS";
 import Details from "~/components/Details";
+import PageViewer from "~/components/PageViewer";
+import AnalysisHistory from "~/components/AnalysisHistory";
+import ApplicationDetails from "~/components/ApplicationDetails";
+import StreamingFeedback from "~/components/StreamingFeedback";
+import JobStatus from "~/components/JobStatus";
+import RubricSelect from "~/components/RubricSelect";
+import BulletRewrites from "~/components/BulletRewrites";
+import FollowUpChat from "~/components/FollowUpChat";
+import RequirementsChecklist from "~/components/RequirementsChecklist";
+import {analyzeATS} from "~/lib/ats";
+import {DOCUMENT_MIME_TYPES, extractDocumentText} from "~/lib/ingest";
+import {runAnalysis, useAnalysisProgress} from "~/lib/analysis";
+import {runPipeline, usePipelineStore} from "~/lib/pipeline";
+import {updateApplication} from "~/lib/applications";
+import {resumeKey, resumeTitle, tryParseResume, updateResumeRecord, useAnalyzedResumes} from "~/lib/resumes";
+import {createReportPdf, reportFileName} from "~/lib/report";
+import {extractBullets, requestRewrites} from "~/lib/rewrites";
+import {loadChat, saveChat, sendChatMessage} from "~/lib/chat";
+import {checkRequirements, parseJobDescription, type RequirementCheck} from "~/lib/requirements";
+import {downloadBlob, toFileSlug} from "~/lib/utils";
 
 export const meta = () => ([
     { title: 'Resumind | Review ' },
@@ -11,43 +31,242 @@ export const meta = () => ([
 ])
 
 const Resume = () => {
-    const { auth, isLoading, fs, kv } = usePuterStore();
+    const { isLoading, isAuthenticated, fs, kv, ai } = useServices();
     const { id } = useParams();
-    const [imageUrl, setImageUrl] = useState('');
+    const [record, setRecord] = useState<Resume | null>(null);
+    const [documentBlob, setDocumentBlob] = useState<Blob | null>(null);
+    const [pageUrls, setPageUrls] = useState<string[]>([]);
     const [resumeUrl, setResumeUrl] = useState('');
-    const [feedback, setFeedback] = useState<Feedback | null>(null);
+    const [selectedVersionId, setSelectedVersionId] = useState('');
+    const [fallbackAnalysis, setFallbackAnalysis] = useState<ATSAnalysis | null>(null);
+    const [jobDescription, setJobDescription] = useState('');
+    const [rubricId, setRubricId] = useState<RubricId | ''>('');
+    const [isReanalyzing, setIsReanalyzing] = useState(false);
+    const [statusText, setStatusText] = useState('');
+    const comparePicker = useAnalyzedResumes(kv);
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportError, setExportError] = useState('');
+    const [chatThread, setChatThread] = useState<ChatThread | null>(null);
+    const resumeTextRef = useRef<string | null>(null);
+    const [requirementChecks, setRequirementChecks] = useState<RequirementCheck[] | null>(null);
+    const progress = useAnalysisProgress((state) => id ? state.progress[id] : undefined);
+    const liveJob = usePipelineStore((state) => id ? state.resumes[id]?.job : undefined);
     const navigate = useNavigate();
 
     useEffect(() => {
-        if(!isLoading && !auth.isAuthenticated) navigate(`/auth?next=/resume/${id}`);
-    }, [isLoading])
+        if(!isLoading && !isAuthenticated) navigate(`/auth?next=/resume/${id}`);
+    }, [isLoading, isAuthenticated])
 
     useEffect(() => {
+        if(isLoading || !id) return;
+
         const loadResume = async () => {
-            const resume = await kv.get(`resume:${id}`);
+            const { data: resume } = await kv.get(resumeKey(id));
 
             if(!resume) return;
 
-            const data = JSON.parse(resume);
+            const data = tryParseResume(resume, resumeKey(id));
+            if(!data) return;
+            setRecord(data);
 
-            const resumeBlob = await fs.read(data.resumePath);
+            const { data: resumeBlob } = await fs.read(data.resumePath);
             if(!resumeBlob) return;
 
-            const pdfBlob = new Blob([resumeBlob], { type: 'application/pdf' });
-            const resumeUrl = URL.createObjectURL(pdfBlob);
+            const resumeFormat: DocumentFormat = data.resumeFormat || 'pdf';
+            const documentBlob = new Blob([resumeBlob], { type: DOCUMENT_MIME_TYPES[resumeFormat] });
+            const resumeUrl = URL.createObjectURL(documentBlob);
             setResumeUrl(resumeUrl);
+            setDocumentBlob(documentBlob);
+
+            const imagePaths: string[] = data.pageImagePaths?.length ? data.pageImagePaths : [data.imagePath];
+            const pageUrls: string[] = [];
+            for (const imagePath of imagePaths) {
+                const { data: imageBlob } = await fs.read(imagePath);
+                if(!imageBlob) break;
+                pageUrls.push(URL.createObjectURL(imageBlob));
+            }
+            if(!pageUrls.length) return;
+            setPageUrls(pageUrls);
 
-            const imageBlob = await fs.read(data.imagePath);
-            if(!imageBlob) return;
-            const imageUrl = URL.createObjectURL(imageBlob);
-            setImageUrl(imageUrl);
+            setSelectedVersionId(data.versions?.at(-1)?.id || '');
+            setJobDescription(data.jobDescription || '');
+            setRubricId(data.rubricId || '');
 
-            setFeedback(data.feedback);
-            console.log({resumeUrl, imageUrl, feedback: data.feedback });
+            // Records analysed before keyword matching existed get it computed on the fly
+            if (!data.atsAnalysis) {
+                try {
+                    setFallbackAnalysis(analyzeATS(await extractDocumentText(documentBlob), data.jobDescription || ''));
+                } catch (error) {
+                    console.error('Error computing ATS keyword match:', error);
+                }
+            }
+            console.log({resumeUrl, pageUrls, feedback: data.feedback });
         }
 
         loadResume();
-    }, [id]);
+        // Reload as a running job moves on, to pick up the new preview and feedback
+    }, [id, isLoading, fs, kv, liveJob?.step]);
+
+    // Each reload creates new object URLs; release the previous ones and those left on unmount
+    useEffect(() => () => pageUrls.forEach((url) => URL.revokeObjectURL(url)), [pageUrls]);
+    useEffect(() => () => {
+        if (resumeUrl) URL.revokeObjectURL(resumeUrl);
+    }, [resumeUrl]);
+
+    useEffect(() => {
+        if(isLoading || !id) return;
+
+        resumeTextRef.current = null;
+        loadChat(kv, id).then(setChatThread);
+    }, [id, isLoading, kv]);
+
+    // Show a finished run as soon as it has been saved
+    useEffect(() => {
+        if (progress?.status !== 'done' || !progress.resume) return;
+
+        setRecord(progress.resume);
+        setSelectedVersionId(progress.resume.versions?.at(-1)?.id || '');
+    }, [progress]);
+
+    const job = liveJob || record?.job;
+    const versions = record?.versions || [];
+    const selectedVersion = versions.find((version) => version.id === selectedVersionId) || versions.at(-1);
+    const feedback = selectedVersion?.feedback || null;
+    const atsAnalysis = selectedVersion?.atsAnalysis || fallbackAnalysis;
+    const versionJobDescription = selectedVersion?.jobDescription ?? record?.jobDescription ?? '';
+    const otherResumes = comparePicker.resumes.filter((resume) => resume.id !== id);
+
+    useEffect(() => {
+        setRequirementChecks(null);
+        if (!documentBlob || !versionJobDescription.trim()) return;
+
+        // Runs parsed before requirement parsing existed get it computed on the fly
+        const requirements = selectedVersion?.jobRequirements
+            || parseJobDescription(versionJobDescription, selectedVersion?.jobTitle ?? record?.jobTitle);
+
+        readResumeText(documentBlob)
+            .then((text) => setRequirementChecks(checkRequirements(requirements, text)))
+            .catch((error) => console.error('Error checking job requirements:', error));
+    }, [documentBlob, selectedVersion?.id, versionJobDescription]);
+
+    const handleReanalyze = async (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (!record || !documentBlob || !id) return;
+
+        setIsReanalyzing(true);
+        setStatusText('Analyzing...');
+
+        let analysis: ATSAnalysis | undefined;
+        try {
+            analysis = analyzeATS(await extractDocumentText(documentBlob), jobDescription);
+        } catch (error) {
+            console.error('Error computing ATS keyword match:', error);
+        }
+
+        const result = await runAnalysis(ai, kv, record, {
+            analysisPath: record.analysisPath || record.resumePath,
+            jobTitle: record.jobTitle || '',
+            jobDescription,
+            atsAnalysis: analysis,
+            jobRequirements: jobDescription.trim() ? parseJobDescription(jobDescription, record.jobTitle) : undefined,
+            rubricId: rubricId || undefined,
+        });
+        setIsReanalyzing(false);
+        setStatusText(result.data ? 'Analysis complete' : `Error: ${result.error}`);
+    }
+
+    const handleRetry = () => {
+        if (!record) return;
+        runPipeline({ fs, kv, ai }, record)
+            .then(({ error }) => error && console.error('Retry failed:', error));
+    }
+
+    const handleExportReport = async () => {
+        if (!record || !feedback) return;
+
+        setIsExporting(true);
+        setExportError('');
+        try {
+            const report = await createReportPdf({
+                resume: record,
+                feedback,
+                rubricId: selectedVersion?.rubricId,
+                thumbnailUrl: pageUrls[0],
+            });
+            downloadBlob(report, reportFileName(record));
+        } catch (error) {
+            console.error('Error exporting report:', error);
+            setExportError('Failed to export report');
+        } finally {
+            setIsExporting(false);
+        }
+    }
+
+    // The extracted text is reused by the rewrite assistant and the follow-up chat
+    const readResumeText = async (blob: Blob) => {
+        resumeTextRef.current ??= await extractDocumentText(blob);
+        return resumeTextRef.current;
+    }
+
+    const handleGenerateRewrites = async () => {
+        if (!documentBlob || !feedback) return { error: 'Resume not loaded' };
+
+        try {
+            const bullets = extractBullets(await readResumeText(documentBlob));
+            return await requestRewrites(ai, {
+                bullets,
+                feedback,
+                jobDescription: versionJobDescription,
+            });
+        } catch (error) {
+            console.error('Error reading resume text:', error);
+            return { error: 'Failed to read the resume text' };
+        }
+    }
+
+    const handleSendChat = async (message: string) => {
+        if (!record || !feedback || !documentBlob || !chatThread) return 'Resume not loaded';
+
+        let resumeText = '';
+        try {
+            resumeText = await readResumeText(documentBlob);
+        } catch (error) {
+            console.error('Error reading resume text:', error);
+        }
+
+        const reply = await sendChatMessage(ai, {
+            resume: record,
+            feedback,
+            jobDescription: versionJobDescription,
+            resumeText,
+            thread: chatThread,
+            message,
+        });
+        if (!reply.data) return reply.error;
+
+        setChatThread(reply.data);
+        const { error } = await saveChat(kv, reply.data);
+        return error;
+    }
+
+    const handleClearChat = async () => {
+        if (!id) return;
+
+        const cleared: ChatThread = { resumeId: id, messages: [], updatedAt: Date.now() };
+        setChatThread(cleared);
+        await saveChat(kv, cleared);
+    }
+
+    const handleSaveApplication = async (changes: Partial<ApplicationInfo>) => {
+        if (!record || !id) return 'Resume not loaded';
+
+        const { data: updated, error } = await updateResumeRecord(kv, id, (current) => ({
+            application: updateApplication(current, changes).application,
+        }));
+        if (!updated) return error;
+
+        setRecord(updated);
+    }
 
     return (
         <main className="!pt-0">
@@ -56,30 +275,118 @@ const Resume = () => {
                     <img src="/icons/back.svg" alt="logo" className="w-2.5 h-2.5" />
                     <span className="text-gray-800 text-sm font-semibold">Back to Homepage</span>
                 </Link>
+                <div className="flex flex-row items-center gap-2">
+                    {exportError && <p className="text-sm text-red-600">{exportError}</p>}
+                    {feedback && (ai.supportsChat || !!record?.coverLetters?.length) && (
+                        <Link to={`/resume/${id}/cover-letter`} className="back-button text-gray-800 text-sm font-semibold">
+                            Cover letter
+                        </Link>
+                    )}
+                    {feedback && (
+                        <button
+                            onClick={handleExportReport}
+                            disabled={isExporting}
+                            className="back-button text-gray-800 text-sm font-semibold cursor-pointer"
+                        >
+                            {isExporting ? 'Exporting...' : 'Export report'}
+                        </button>
+                    )}
+                    {feedback && (
+                        <select
+                            value=""
+                            onChange={(e) => e.target.value && navigate(`/compare/${id}/${e.target.value}`)}
+                            // The other analyses are only read once the picker is opened
+                            onFocus={comparePicker.load}
+                            onMouseDown={comparePicker.load}
+                            className="back-button text-gray-800 text-sm font-semibold bg-white cursor-pointer"
+                        >
+                            <option value="">Compare with...</option>
+                            {otherResumes.map((resume) => (
+                                <option key={resume.id} value={resume.id}>
+                                    {resumeTitle(resume)}
+                                </option>
+                            ))}
+                            {comparePicker.status !== 'loaded' ? (
+                                <option value="" disabled>
+                                    {comparePicker.status === 'failed' ? 'Could not load analyses, reopen to retry' : 'Loading analyses...'}
+                                </option>
+                            ) : !otherResumes.length && (
+                                <option value="" disabled>No other analyses yet</option>
+                            )}
+                        </select>
+                    )}
+                </div>
             </nav>
             <div className="flex flex-row w-full max-lg:flex-col-reverse">
                 <section className="feedback-section bg-[url('/images/bg-small.svg') bg-cover h-[100vh] sticky top-0 items-center justify-center">
-                    {imageUrl && resumeUrl && (
-                        <div className="animate-in fade-in duration-1000 gradient-border max-sm:m-0 h-[90%] max-wxl:h-fit w-fit">
-                            <a href={resumeUrl} target="_blank" rel="noopener noreferrer">
-                                <img
-                                    src={imageUrl}
-                                    className="w-full h-full object-contain rounded-2xl"
-                                    title="resume"
-                                />
-                            </a>
-                        </div>
+                    {pageUrls.length > 0 && resumeUrl && (
+                        <PageViewer pageUrls={pageUrls} resumeUrl={resumeUrl} />
                     )}
                 </section>
                 <section className="feedback-section">
                     <h2 className="text-4xl !text-black font-bold">Resume Review</h2>
+                    {job && job.status !== 'done' && !feedback && progress?.status !== 'streaming' && (
+                        <JobStatus job={job} onRetry={handleRetry} className="w-full" />
+                    )}
+                    {progress?.status === 'streaming' && <StreamingFeedback partial={progress.partial} />}
                     {feedback ? (
                         <div className="flex flex-col gap-8 animate-in fade-in duration-1000">
-                            <Summary feedback={feedback} />
-                            <ATS score={feedback.ATS.score || 0} suggestions={feedback.ATS.tips || []} />
+                            {record && <ApplicationDetails resume={record} onSave={handleSaveApplication} />}
+                            <Summary feedback={feedback} rubricId={selectedVersion?.rubricId || record?.rubricId} />
+                            <ATS score={feedback.ATS.score || 0} suggestions={feedback.ATS.tips || []} analysis={atsAnalysis} />
+                            {requirementChecks && (
+                                <RequirementsChecklist checks={requirementChecks} jobDescription={versionJobDescription} />
+                            )}
                             <Details feedback={feedback} />
+                            {/* The rewrite assistant and the chat need a provider that can chat */}
+                            {documentBlob && ai.supportsChat && (
+                                <BulletRewrites
+                                    key={selectedVersion?.id}
+                                    onGenerate={handleGenerateRewrites}
+                                    fileName={record ? toFileSlug(resumeTitle(record)) : 'resume'}
+                                />
+                            )}
+                            {documentBlob && chatThread && ai.supportsChat && (
+                                <FollowUpChat
+                                    messages={chatThread.messages}
+                                    onSend={handleSendChat}
+                                    onClear={handleClearChat}
+                                />
+                            )}
+                            <AnalysisHistory
+                                versions={versions}
+                                selectedId={selectedVersion?.id || ''}
+                                onSelect={setSelectedVersionId}
+                            />
+                            <form onSubmit={handleReanalyze} className="flex flex-col gap-4 bg-white rounded-2xl shadow-md w-full p-4">
+                                <h3 className="text-2xl font-bold">Re-analyze</h3>
+                                <p className="text-sm text-gray-500">
+                                    Run the analysis again on the stored resume, for example against a different job description.
+                                    Every run is kept in the history above.
+                                </p>
+                                <RubricSelect
+                                    id="reanalyze-rubric"
+                                    value={rubricId}
+                                    jobTitle={record?.jobTitle || ''}
+                                    onChange={setRubricId}
+                                />
+                                <div className="form-div">
+                                    <label htmlFor="reanalyze-job-description">Job Description</label>
+                                    <textarea
+                                        rows={5}
+                                        id="reanalyze-job-description"
+                                        value={jobDescription}
+                                        onChange={(e) => setJobDescription(e.target.value)}
+                                        placeholder="Job Description"
+                                    />
+                                </div>
+                                <button className="primary-button" type="submit" disabled={isReanalyzing}>
+                                    {isReanalyzing ? 'Analyzing...' : 'Re-analyze Resume'}
+                                </button>
+                                {statusText && <p className="text-sm text-gray-600">{statusText}</p>}
+                            </form>
                         </div>
-                    ) : (
+                    ) : !progress && !job && (
                         <img src="/images/resume-scan-2.gif" className="w-full" />
                     )}
                 </section>
@@ -87,4 +394,4 @@ const Resume = () => {
         </main>
     )
 }
-export default Resume
\ No newline at end of file
+export default Resume
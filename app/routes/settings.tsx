@@ -0,0 +1,168 @@
+import {type FormEvent, useEffect, useState} from "react";
+import {Link, useNavigate} from "react-router";
+import Navbar from "~/components/Navbar";
+import {cn} from "~/lib/utils";
+import {useServices} from "~/lib/services/context";
+import {ServiceProvider} from "~/lib/services";
+import {type AnalysisSettings, MODEL_SUGGESTIONS, useSettings} from "~/lib/settings";
+import {ANALYSIS_PRESETS} from "../../constants";
+
+export const meta = () => ([
+    { title: 'Resumind | Settings' },
+    { name: 'description', content: 'Choose the AI model and analysis preset' },
+])
+
+// Empty inputs mean "use the provider default"
+const parseOptionalNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+const Settings = () => {
+    const { isLoading, isAuthenticated, provider, ai } = useServices();
+    const { settings, saveSettings, resetSettings, openaiApiKey, saveOpenAIApiKey } = useSettings();
+    const [draft, setDraft] = useState<AnalysisSettings>(settings);
+    const [apiKey, setApiKey] = useState(openaiApiKey);
+    // The hybrid provider may route AI calls to an OpenAI-compatible endpoint
+    const usesOpenAI = provider === ServiceProvider.OPENAI || provider === ServiceProvider.HYBRID;
+    const [statusText, setStatusText] = useState('');
+    const navigate = useNavigate();
+
+    useEffect(() => {
+        if(!isLoading && !isAuthenticated) navigate('/auth?next=/settings');
+    }, [isLoading, isAuthenticated])
+
+    useEffect(() => {
+        setDraft(settings);
+    }, [settings]);
+
+    const update = (changes: Partial<AnalysisSettings>) => {
+        setDraft((current) => ({ ...current, ...changes }));
+        setStatusText('');
+    }
+
+    const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+
+        if (draft.temperature !== undefined && (Number.isNaN(draft.temperature) || draft.temperature < 0 || draft.temperature > 2)) {
+            return setStatusText('Error: Temperature must be between 0 and 2');
+        }
+        if (draft.maxTokens !== undefined && (!Number.isInteger(draft.maxTokens) || draft.maxTokens < 1)) {
+            return setStatusText('Error: Max tokens must be a positive whole number');
+        }
+
+        saveSettings({ ...draft, model: draft.model.trim() });
+        if (usesOpenAI) saveOpenAIApiKey(apiKey.trim());
+        setStatusText('Settings saved. They apply to the next analysis.');
+    }
+
+    const handleReset = () => {
+        resetSettings();
+        setStatusText('Settings reset to the defaults');
+    }
+
+    return (
+        <main className="bg-[url('/images/bg-main.svg')] bg-cover">
+            <Navbar />
+
+            <section className="main-section">
+                <div className="page-heading py-16">
+                    <h1>Analysis Settings</h1>
+                    <h2>Choose the model and how deep each review should go</h2>
+
+                    <form onSubmit={handleSubmit} className="flex flex-col gap-4 mt-8">
+                        <div className="form-div">
+                            <label>Analysis Preset</label>
+                            <div className="grid grid-cols-2 max-sm:grid-cols-1 gap-4 w-full">
+                                {(Object.keys(ANALYSIS_PRESETS) as AnalysisPreset[]).map((preset) => (
+                                    <button
+                                        key={preset}
+                                        type="button"
+                                        onClick={() => update({ preset })}
+                                        className={cn(
+                                            "flex flex-col gap-1 items-start text-left p-4 rounded-2xl bg-white cursor-pointer border-2",
+                                            draft.preset === preset ? "border-[#606beb]" : "border-transparent"
+                                        )}
+                                    >
+                                        <p className="text-lg font-semibold">{ANALYSIS_PRESETS[preset].label}</p>
+                                        <p className="text-sm text-gray-500">{ANALYSIS_PRESETS[preset].description}</p>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="form-div">
+                            <label htmlFor="model">Model</label>
+                            <input
+                                type="text"
+                                id="model"
+                                list="model-suggestions"
+                                value={draft.model}
+                                onChange={(e) => update({ model: e.target.value })}
+                                placeholder={ai.defaultModel ? `Provider default (${ai.defaultModel})` : 'Provider default'}
+                            />
+                            <datalist id="model-suggestions">
+                                {(MODEL_SUGGESTIONS[provider] || []).map((model) => (
+                                    <option key={model} value={model} />
+                                ))}
+                            </datalist>
+                        </div>
+                        <div className="form-div">
+                            <label htmlFor="temperature">Temperature</label>
+                            <input
+                                type="number"
+                                id="temperature"
+                                min={0}
+                                max={2}
+                                step={0.1}
+                                value={draft.temperature ?? ''}
+                                onChange={(e) => update({ temperature: parseOptionalNumber(e.target.value) })}
+                                placeholder="Provider default"
+                            />
+                        </div>
+                        <div className="form-div">
+                            <label htmlFor="max-tokens">Max Tokens</label>
+                            <input
+                                type="number"
+                                id="max-tokens"
+                                min={1}
+                                step={1}
+                                value={draft.maxTokens ?? ''}
+                                onChange={(e) => update({ maxTokens: parseOptionalNumber(e.target.value) })}
+                                placeholder="Provider default"
+                            />
+                        </div>
+
+                        {usesOpenAI && (
+                            <div className="form-div">
+                                <label htmlFor="api-key">API Key</label>
+                                <input
+                                    type="password"
+                                    id="api-key"
+                                    autoComplete="off"
+                                    value={apiKey}
+                                    onChange={(e) => {
+                                        setApiKey(e.target.value);
+                                        setStatusText('');
+                                    }}
+                                    placeholder="Not needed for a proxy or a local server"
+                                />
+                                <p className="text-sm text-gray-500">
+                                    Stored in this browser and only sent to the configured AI endpoint.
+                                </p>
+                            </div>
+                        )}
+
+                        <button className="primary-button" type="submit">
+                            Save Settings
+                        </button>
+                        <button type="button" className="text-sm text-gray-500 underline cursor-pointer self-center" onClick={handleReset}>
+                            Reset to defaults
+                        </button>
+                        {statusText && <p className="text-sm text-gray-600 self-center">{statusText}</p>}
+                    </form>
+                    <Link to="/backup" className="text-sm text-gray-500 underline">
+                        Back up or restore your reviews
+                    </Link>
+                </div>
+            </section>
+        </main>
+    )
+}
+export default Settings
@@ -1,18 +1,25 @@
-import {type FormEvent, useState, useEffect} from 'react'
+import {type FormEvent, useState, useEffect, useRef} from 'react'
 import Navbar from "~/components/Navbar";
 import FileUploader from "~/components/FileUploader";
-import {usePuterStore} from "~/lib/puter";
+import RubricSelect from "~/components/RubricSelect";
+import JobImport from "~/components/JobImport";
+import {useServices} from "~/lib/services/context";
 import {useNavigate} from "react-router";
-import {convertPdfToImage} from "~/lib/pdf2img";
-import {generateUUID} from "~/lib/utils";
-import {prepareInstructions} from "../../constants";
+import {createResumeJob, JOB_STEP_LABELS, runPipeline} from "~/lib/pipeline";
+import {withOperations} from "~/lib/operation";
+import type {ImportedJob} from "~/lib/jobImport";
 
 const Upload = () => {
-    const { auth, isLoading, fs, ai, kv } = usePuterStore();
+    const { fs, ai, kv } = useServices();
     const navigate = useNavigate();
     const [isProcessing, setIsProcessing] = useState(false);
     const [statusText, setStatusText] = useState('');
     const [file, setFile] = useState<File | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const [companyNameInput, setCompanyNameInput] = useState('');
+    const [jobTitleInput, setJobTitleInput] = useState('');
+    const [jobDescriptionInput, setJobDescriptionInput] = useState('');
+    const [rubricId, setRubricId] = useState<RubricId | ''>('');
 
     // Global error handler
     useEffect(() => {
@@ -41,127 +48,54 @@ const Upload = () => {
     const handleAnalyze = async ({ companyName, jobTitle, jobDescription, file }: { companyName: string, jobTitle: string, jobDescription: string, file: File  }) => {
         setIsProcessing(true);
 
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
         // Set a global timeout for the entire operation
         const globalTimeoutId = setTimeout(() => {
             console.error('Global timeout: Analysis operation took too long (5 minutes)');
+            controller.abort();
             setStatusText('Error: The operation timed out after 5 minutes. Please try again.');
             setIsProcessing(false);
         }, 300000); // 5 minutes timeout
 
-        setStatusText('Uploading the file...');
-        const uploadedFile = await fs.upload([file]);
-        if(!uploadedFile) {
-            clearTimeout(globalTimeoutId);
-            return setStatusText('Error: Failed to upload file');
-        }
-
-        setStatusText('Converting to image...');
-        let imageFile;
-        try {
-            imageFile = await convertPdfToImage(file);
-            if(!imageFile.file) {
-                const errorMessage = imageFile.error || 'Failed to convert PDF to image';
-                console.error('PDF conversion error:', errorMessage);
-                clearTimeout(globalTimeoutId);
-                return setStatusText(`Error: ${errorMessage}`);
-            }
-        } catch (error) {
-            console.error('Exception during PDF conversion:', error);
+        const finish = (message: string) => {
             clearTimeout(globalTimeoutId);
-            return setStatusText(`Error: ${error instanceof Error ? error.message : 'Failed to convert PDF to image'}`);
+            abortControllerRef.current = null;
+            // A cancelled upload has already reset the page
+            if (!controller.signal.aborted) setStatusText(message);
         }
 
-        setStatusText('Uploading the image...');
-        const uploadedImage = await fs.upload([imageFile.file]);
-        if(!uploadedImage) {
-            clearTimeout(globalTimeoutId);
-            return setStatusText('Error: Failed to upload image');
-        }
-
-        setStatusText('Preparing data...');
-        console.log('Preparing data for analysis...');
-        const uuid = generateUUID();
-        console.log('Generated UUID:', uuid);
-        const data = {
-            id: uuid,
-            resumePath: uploadedFile.path,
-            imagePath: uploadedImage.path,
-            companyName, jobTitle, jobDescription,
-            feedback: '',
-        }
-        console.log('Data object created:', { ...data, resumePath: '(truncated)', imagePath: '(truncated)' });
-
-        try {
-            console.log('Storing data in key-value store...');
-            await kv.set(`resume:${uuid}`, JSON.stringify(data));
-            console.log('Data successfully stored in key-value store');
-        } catch (error) {
-            console.error('Error storing data in key-value store:', error);
-            clearTimeout(globalTimeoutId);
-            return setStatusText(`Error: Failed to store data. ${error instanceof Error ? error.message : ''}`);
-        }
-
-        setStatusText('Analyzing...');
-        console.log('Starting AI analysis of resume...');
-
-        let feedback;
-        try {
-            console.log('Sending resume to AI for feedback...');
-            const instructions = prepareInstructions({ jobTitle, jobDescription });
-            console.log('Prepared instructions for AI');
-
-            feedback = await ai.feedback(
-                uploadedFile.path,
-                instructions
-            );
-
-            if (!feedback) {
-                console.error('AI feedback returned null or undefined');
-                clearTimeout(globalTimeoutId);
-                return setStatusText('Error: Failed to analyze resume');
-            }
-            console.log('Received AI feedback response');
-        } catch (error) {
-            console.error('Error getting AI feedback:', error);
-            clearTimeout(globalTimeoutId);
-            return setStatusText(`Error: Failed to analyze resume. ${error instanceof Error ? error.message : ''}`);
-        }
-
-        let feedbackText;
-        try {
-            console.log('Processing AI feedback response...');
-            feedbackText = typeof feedback.message.content === 'string'
-                ? feedback.message.content
-                : feedback.message.content[0].text;
-
-            console.log('Parsing feedback JSON...');
-            data.feedback = JSON.parse(feedbackText);
-            console.log('Successfully parsed feedback JSON');
-        } catch (error) {
-            console.error('Error parsing feedback:', error);
-            clearTimeout(globalTimeoutId);
-            return setStatusText(`Error: Failed to parse feedback. ${error instanceof Error ? error.message : ''}`);
+        setStatusText('Uploading the file...');
+        const services = withOperations({ fs, kv, ai }, { signal: controller.signal });
+        const { data: resume, error: createError } = await createResumeJob(services, {
+            file, companyName, jobTitle, jobDescription, rubricId: rubricId || undefined,
+        });
+        if(!resume) {
+            return finish(`Error: ${createError}`);
         }
 
-        try {
-            console.log('Storing final data with feedback in key-value store...');
-            await kv.set(`resume:${uuid}`, JSON.stringify(data));
-            console.log('Final data successfully stored in key-value store');
-        } catch (error) {
-            console.error('Error storing feedback in key-value store:', error);
-            clearTimeout(globalTimeoutId);
-            return setStatusText(`Error: Failed to store feedback. ${error instanceof Error ? error.message : ''}`);
+        // Every step is saved as it completes, so a failure here can be retried from the dashboard
+        const prepared = await runPipeline({ fs, kv, ai }, resume, {
+            until: 'analyze',
+            onStep: (step) => setStatusText(`${JOB_STEP_LABELS[step]}...`),
+            signal: controller.signal,
+        });
+        if(!prepared.data) {
+            return finish(`Error: ${prepared.error}. You can retry it from the dashboard.`);
         }
+        if (controller.signal.aborted) return finish('');
 
-        // Clear the global timeout as the operation has completed successfully
-        clearTimeout(globalTimeoutId);
+        // The analysis keeps streaming after we leave; the results page shows it as it arrives
+        runPipeline({ fs, kv, ai }, prepared.data)
+            .then(({ error }) => error && console.error('AI feedback failed:', error));
 
-        setStatusText('Analysis complete, redirecting...');
-        console.log('Analysis complete, data:', { ...data, resumePath: '(truncated)', imagePath: '(truncated)', feedback: '(truncated)' });
+        // Clear the global timeout as the upload has completed successfully
+        finish('Upload complete, redirecting...');
         console.log('Redirecting to resume page...');
 
         try {
-            navigate(`/resume/${uuid}`);
+            navigate(`/resume/${resume.id}`);
             console.log('Navigation initiated');
         } catch (error) {
             console.error('Error during navigation:', error);
@@ -169,6 +103,20 @@ const Upload = () => {
         }
     }
 
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        setIsProcessing(false);
+        setStatusText('Upload cancelled. Anything already uploaded can be retried from the dashboard.');
+    }
+
+    // Keeps anything already typed when the posting does not provide it
+    const handleJobImport = ({ title, company, description }: ImportedJob) => {
+        if (company) setCompanyNameInput(company);
+        if (title) setJobTitleInput(title);
+        setJobDescriptionInput(description);
+    }
+
     const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
         e.preventDefault();
         const form = e.currentTarget.closest('form');
@@ -195,24 +143,50 @@ const Upload = () => {
                         <>
                             <h2>{statusText}</h2>
                             <img src="/images/resume-scan.gif" className="w-full" alt="Resume scanning animation" />
+                            <button className="back-button w-fit mx-auto cursor-pointer" onClick={handleCancel}>
+                                <span className="text-gray-800 text-sm font-semibold">Cancel</span>
+                            </button>
 
                         </>
                     ) : (
-                        <h2>Drop your resume for an ATS score and improvement tips</h2>
+                        <h2>{statusText || 'Drop your resume for an ATS score and improvement tips'}</h2>
                     )}
                     {!isProcessing && (
                         <form id="upload-form" onSubmit={handleSubmit} className="flex flex-col gap-4 mt-8">
+                            <JobImport onImport={handleJobImport} />
                             <div className="form-div">
                                 <label htmlFor="company-name">Company Name</label>
-                                <input type="text" name="company-name" placeholder="Company Name" id="company-name" />
+                                <input
+                                    type="text"
+                                    name="company-name"
+                                    placeholder="Company Name"
+                                    id="company-name"
+                                    value={companyNameInput}
+                                    onChange={(e) => setCompanyNameInput(e.target.value)}
+                                />
                             </div>
                             <div className="form-div">
                                 <label htmlFor="job-title">Job Title</label>
-                                <input type="text" name="job-title" placeholder="Job Title" id="job-title" />
+                                <input
+                                    type="text"
+                                    name="job-title"
+                                    placeholder="Job Title"
+                                    id="job-title"
+                                    value={jobTitleInput}
+                                    onChange={(e) => setJobTitleInput(e.target.value)}
+                                />
                             </div>
+                            <RubricSelect id="rubric" value={rubricId} jobTitle={jobTitleInput} onChange={setRubricId} />
                             <div className="form-div">
                                 <label htmlFor="job-description">Job Description</label>
-                                <textarea rows={5} name="job-description" placeholder="Job Description" id="job-description" />
+                                <textarea
+                                    rows={5}
+                                    name="job-description"
+                                    placeholder="Job Description"
+                                    id="job-description"
+                                    value={jobDescriptionInput}
+                                    onChange={(e) => setJobDescriptionInput(e.target.value)}
+                                />
                             </div>
 
                             <div className="form-div">
@@ -1,26 +1,27 @@
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router";
-import { usePuterStore } from "~/lib/puter";
+import { Link, useNavigate } from "react-router";
+import { useServices } from "~/lib/services/context";
+import type { FileItem } from "~/lib/services";
 
 const WipeApp = () => {
-    const { auth, isLoading, error, clearError, fs, ai, kv } = usePuterStore();
+    const { user, isAuthenticated, isLoading, error, fs, kv } = useServices();
     const navigate = useNavigate();
-    const [files, setFiles] = useState<FSItem[]>([]);
+    const [files, setFiles] = useState<FileItem[]>([]);
 
     const loadFiles = async () => {
-        const files = (await fs.readDir("./")) as FSItem[];
-        setFiles(files);
+        const { data: files } = await fs.list("./");
+        setFiles(files || []);
     };
 
     useEffect(() => {
-        loadFiles();
-    }, []);
+        if (!isLoading) loadFiles();
+    }, [isLoading, fs]);
 
     useEffect(() => {
-        if (!isLoading && !auth.isAuthenticated) {
+        if (!isLoading && !isAuthenticated) {
             navigate("/auth?next=/wipe");
         }
-    }, [isLoading]);
+    }, [isLoading, isAuthenticated]);
 
     const handleDelete = async () => {
         files.forEach(async (file) => {
@@ -40,7 +41,7 @@ const WipeApp = () => {
 
     return (
         <div>
-            Authenticated as: {auth.user?.username}
+            Authenticated as: {user?.name}
             <div>Existing files:</div>
             <div className="flex flex-col gap-4">
                 {files.map((file) => (
@@ -50,6 +51,9 @@ const WipeApp = () => {
                 ))}
             </div>
             <div>
+                <Link to="/backup" className="underline">
+                    Export a backup before wiping
+                </Link>
                 <button
                     className="bg-blue-500 text-white px-4 py-2 rounded-md cursor-pointer"
                     onClick={() => handleDelete()}
@@ -225,12 +225,41 @@ export const AIResponseFormat = `
       };
     }`;
 
-export const prepareInstructions = ({jobTitle, jobDescription}: { jobTitle: string; jobDescription: string; }) =>
+export const ANALYSIS_PRESETS: Record<AnalysisPreset, { label: string; description: string; instructions: string }> = {
+    quick: {
+        label: 'Quick scan',
+        description: 'A fast pass that flags the most important issues.',
+        instructions: `Do a quick scan rather than a full review.
+      Focus only on the most important issues and strengths.
+      Give at most 2 tips per category and keep each explanation to one sentence.`,
+    },
+    deep: {
+        label: 'Deep review',
+        description: 'A thorough review with detailed explanations for every category.',
+        instructions: `Be thorough and detailed. Don't be afraid to point out any mistakes or areas for improvement.
+      If there is a lot to improve, don't hesitate to give low scores. This is to help the user to improve their resume.`,
+    },
+};
+
+const prepareRubricInstructions = (rubric: Rubric) => {
+    const totalWeight = Object.values(rubric.weights).reduce((sum, weight) => sum + weight, 0);
+    const weights = Object.entries(rubric.weights)
+        .map(([category, weight]) => `${category} ${Math.round((weight / totalWeight) * 100)}%`)
+        .join(', ');
+
+    return `Review this resume using the ${rubric.label} rubric.
+      Weigh the categories as follows when deciding the overall score: ${weights}.
+      Make sure to check:
+      ${rubric.mustCheck.map((item) => `- ${item}`).join('\n      ')}
+      Tone expectations: ${rubric.tone}`;
+}
+
+export const prepareInstructions = ({jobTitle, jobDescription, preset = 'deep', rubric}: { jobTitle: string; jobDescription: string; preset?: AnalysisPreset; rubric?: Rubric; }) =>
     `You are an expert in ATS (Applicant Tracking System) and resume analysis.
       Please analyze and rate this resume and suggest how to improve it.
       The rating can be low if the resume is bad.
-      Be thorough and detailed. Don't be afraid to point out any mistakes or areas for improvement.
-      If there is a lot to improve, don't hesitate to give low scores. This is to help the user to improve their resume.
+      ${ANALYSIS_PRESETS[preset].instructions}
+      ${rubric ? prepareRubricInstructions(rubric) : ''}
       If available, use the job description for the job user is applying to to give more detailed feedback.
       If provided, take the job description into consideration.
       The job title is: ${jobTitle}
@@ -238,4 +267,57 @@ export const prepareInstructions = ({jobTitle, jobDescription}: { jobTitle: stri
       Provide the feedback using the following format:
       ${AIResponseFormat}
       Return the analysis as an JSON object, without any other text and without the backticks.
-      Do not include any other text or comments.`;
\ No newline at end of file
+      Do not include any other text or comments.`;
+
+export const prepareRewriteInstructions = ({bullets, tips, jobDescription}: { bullets: string[]; tips: string[]; jobDescription: string; }) =>
+    `You are an expert resume writer.
+      Below are the experience bullet points from a resume, numbered from 0, followed by the improvements a reviewer suggested.
+      Rewrite the bullets that would benefit most from those improvements: start with a strong action verb,
+      show measurable impact where the bullet implies it, and keep every fact from the original. Do not invent numbers or achievements.
+      Leave out bullets that are already strong.
+      If provided, tailor the wording to the job description.
+      The bullets are:
+      ${bullets.map((bullet, index) => `${index}. ${bullet}`).join('\n      ')}
+      The suggested improvements are:
+      ${tips.map((tip) => `- ${tip}`).join('\n      ')}
+      The job description is: ${jobDescription}
+      Provide the rewrites using the following format:
+      {
+        rewrites: {
+          index: number; //number of the original bullet
+          rewrite: string; //the improved bullet, without a leading bullet character
+          tip: string; //the suggested improvement this rewrite addresses, copied from the list above
+        }[];
+      }
+      Return the rewrites as an JSON object, without any other text and without the backticks.
+      Do not include any other text or comments.`;
+
+// Leave resumeText out when the resume is sent as an attachment
+export const prepareChatContext = ({jobTitle, jobDescription, feedback, resumeText}: { jobTitle: string; jobDescription: string; feedback: Feedback; resumeText?: string; }) =>
+    `You are an expert resume coach. The user's resume is ${resumeText === undefined ? 'attached' : 'included below'} and has already been reviewed.
+      Answer the user's follow-up questions about the review: explain the scores, suggest concrete edits,
+      and rewrite parts of the resume when asked. Base your answers on the resume, the job description and the review below.
+      Keep answers short and practical, and use Markdown only for lists.
+      The job title is: ${jobTitle}
+      The job description is: ${jobDescription}
+      The review is: ${JSON.stringify(feedback)}${resumeText === undefined ? '' : `
+      The resume text is:
+      ${resumeText}`}`;
+
+// Leave resumeText out when the resume is sent as an attachment
+export const prepareCoverLetterInstructions = ({companyName, jobTitle, jobDescription, feedback, resumeText, tone, length}: { companyName: string; jobTitle: string; jobDescription: string; feedback: Feedback; resumeText?: string; tone: string; length: string; }) =>
+    `You are an expert career coach writing a cover letter for the candidate whose resume is ${resumeText === undefined ? 'attached' : 'included below'}.
+      Write a tailored cover letter for the job below, using only experience and skills found in the resume.
+      Do not invent employers, numbers or qualifications.
+      Lead with the strengths the review below marks as good, and connect them to the job description.
+      ${tone}
+      ${length}
+      The company is: ${companyName}
+      The job title is: ${jobTitle}
+      The job description is: ${jobDescription}
+      The review is: ${JSON.stringify(feedback)}${resumeText === undefined ? '' : `
+      The resume text is:
+      ${resumeText}`}
+      Return only the letter text, starting with the greeting and ending with the sign-off.
+      Use placeholders in square brackets for anything you do not know, such as [Hiring Manager].
+      Do not include any other text or comments.`;
@@ -3,8 +3,133 @@ interface Resume {
     companyName?: string;
     jobTitle?: string;
     imagePath: string;
+    pageImagePaths?: string[];
+    pageCount?: number;
     resumePath: string;
+    resumeFormat?: DocumentFormat;
+    // Extracted text uploaded for AI analysis of non-PDF resumes
+    analysisPath?: string;
+    jobDescription?: string;
+    // Missing until the first analysis of an upload has finished
+    feedback?: Feedback;
+    atsAnalysis?: ATSAnalysis;
+    createdAt?: number;
+    // Every analysis run, oldest first; `feedback` mirrors the latest one
+    versions?: AnalysisVersion[];
+    application?: ApplicationInfo;
+    // Rubric chosen on upload (or detected from the job title), reused when re-analysing
+    rubricId?: RubricId;
+    // Progress of the upload pipeline; absent on records written before it existed
+    job?: AnalysisJob;
+    // Saved cover letter drafts, oldest first; the text lives in file storage
+    coverLetters?: CoverLetterVersion[];
+    // Parsed from jobDescription; mirrors the latest version's
+    jobRequirements?: JobRequirements;
+}
+
+type EducationLevel = "high-school" | "associate" | "bachelor" | "master" | "doctorate";
+
+type SeniorityLevel = "intern" | "entry" | "mid" | "senior" | "lead" | "principal" | "manager" | "director";
+
+interface JobRequirements {
+    requiredSkills: string[];
+    preferredSkills: string[];
+    // Most years any required line asks for
+    minYearsExperience?: number;
+    education?: EducationLevel;
+    certifications: string[];
+    location?: string;
+    remote: boolean;
+    seniority?: SeniorityLevel;
+}
+
+type CoverLetterTone = "professional" | "enthusiastic" | "confident" | "conversational";
+
+type CoverLetterLength = "short" | "medium" | "long";
+
+interface CoverLetterVersion {
+    id: string;
+    createdAt: number;
+    path: string;
+    tone: CoverLetterTone;
+    length: CoverLetterLength;
+}
+
+type AnalysisJobStep = "ingest" | "analyze" | "done";
+
+interface AnalysisJob {
+    step: AnalysisJobStep;
+    status: "running" | "failed" | "done";
+    error?: string;
+    attempts: number;
+    updatedAt: number;
+}
+
+type ApplicationStatus = "draft" | "applied" | "interviewing" | "offer" | "rejected";
+
+interface ApplicationInfo {
+    status: ApplicationStatus;
+    // yyyy-mm-dd, as produced by <input type="date">
+    appliedDate?: string;
+    jobUrl?: string;
+    contact?: string;
+    notes?: string;
+    updatedAt?: number;
+}
+
+interface AnalysisVersion {
+    id: string;
+    createdAt: number;
+    // Model and preset that produced this run
+    model?: string;
+    preset?: AnalysisPreset;
+    rubricId?: RubricId;
+    jobTitle?: string;
+    jobDescription?: string;
     feedback: Feedback;
+    atsAnalysis?: ATSAnalysis;
+    jobRequirements?: JobRequirements;
+}
+
+type AnalysisPreset = "quick" | "deep";
+
+// Follow-up conversation about a review, stored under `chat:${resumeId}`
+interface ChatThread {
+    resumeId: string;
+    // Only the visible turns; the review context is rebuilt for every request
+    messages: ChatMessage[];
+    updatedAt: number;
+}
+
+type FeedbackCategoryKey = Exclude<keyof Feedback, "overallScore">;
+
+type RubricId = "general" | "software-engineering" | "design" | "data-science" | "sales" | "academic" | "new-grad";
+
+interface Rubric {
+    id: RubricId;
+    label: string;
+    description: string;
+    // Matched against the job title when no rubric is picked
+    titlePatterns: RegExp[];
+    // Relative importance of each category; normalised when used
+    weights: Record<FeedbackCategoryKey, number>;
+    mustCheck: string[];
+    tone: string;
+}
+
+type DocumentFormat = "pdf" | "docx" | "text";
+
+interface ATSAnalysis {
+    score: number;
+    hasJobDescription: boolean;
+    keywordCoverage: number;
+    matchedKeywords: string[];
+    missingKeywords: string[];
+    missingMustHaves: string[];
+    sections: {
+        name: string;
+        found: boolean;
+    }[];
 }
 
 interface Feedback {
@@ -16,6 +16,7 @@ interface FSItem {
 interface PuterUser {
     uuid: string;
     username: string;
+    email?: string;
 }
 
 interface KVItem {
@@ -49,6 +50,11 @@ interface PuterChatOptions {
     };
 }
 
+// One chunk of a `stream: true` chat response
+interface PuterChatStreamPart {
+    text?: string;
+}
+
 interface AIResponse {
     index: number;
     message: {
@@ -66,4 +72,44 @@ interface AIResponse {
         cost: number;
     }[];
     via_ai_chat_service: boolean;
-}
\ No newline at end of file
+}
+interface Window {
+    puter: {
+        auth: {
+            getUser: () => Promise<PuterUser>;
+            isSignedIn: () => Promise<boolean>;
+            signIn: () => Promise<void>;
+            signOut: () => Promise<void>;
+        };
+        fs: {
+            write: (
+                path: string,
+                data: string | File | Blob
+            ) => Promise<FSItem | undefined>;
+            read: (path: string) => Promise<Blob>;
+            upload: (file: File[] | Blob[]) => Promise<FSItem>;
+            delete: (path: string) => Promise<void>;
+            readdir: (path: string) => Promise<FSItem[] | undefined>;
+            getReadURL: (path: string, expiresIn?: string) => Promise<string>;
+        };
+        ai: {
+            chat: (
+                prompt: string | ChatMessage[],
+                imageURL?: string | PuterChatOptions,
+                testMode?: boolean,
+                options?: PuterChatOptions
+            ) => Promise<Object>;
+            img2txt: (
+                image: string | File | Blob,
+                testMode?: boolean
+            ) => Promise<string>;
+        };
+        kv: {
+            get: (key: string) => Promise<string | null>;
+            set: (key: string, value: string) => Promise<boolean>;
+            delete: (key: string) => Promise<boolean>;
+            list: (pattern: string, returnValues?: boolean) => Promise<string[] | KVItem[]>;
+            flush: () => Promise<boolean>;
+        };
+    };
+}